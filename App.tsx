@@ -1,15 +1,34 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react';
-import ReactMarkdown from 'react-markdown';
-import { PaperFile, PaperSummary, SidebarTab, ChatMessage, AppMode, PageTranslation, ContentBlock, CitationInfo, AppearanceSettings, Note } from './types';
+import { PaperFile, PaperSummary, SidebarTab, ChatMessage, AppMode, PageTranslation, ContentBlock, Reference, BibliographyEntry, EquationExplanation, AppearanceSettings, Note, SummaryProgress } from './types';
 import { extractTextFromPdf, fileToBase64 } from './utils/pdfUtils';
-import { generateFingerprint, getSummary, saveSummary, getPageTranslation, savePageTranslation } from './utils/storage';
-import { generatePaperSummary, chatWithPaper, translatePageContent, analyzeCitation, explainEquation } from './services/geminiService';
-import { chatWithDeepSeek } from './services/deepseekService';
+import { generateFingerprint, getSummary, saveSummary, getPaperText, savePaperText, getPageTranslation, getSummaryChunk, saveSummaryChunk, getPaperIndex, savePaperIndex, getReferenceIndex, saveReferenceIndex, updateReferenceIndex, getBibliographyEntries, saveBlockEdits } from './utils/storage';
+import { buildPaperIndex, PaperIndex, INDEX_VERSION } from './utils/retrieval';
+import { buildReferenceIndex, carryOverAnnotations, ReferenceIndex, REFERENCE_INDEX_VERSION } from './utils/references';
+import { DetectedCitation } from './utils/citations';
+import { findSymbolDefinitions } from './utils/symbols';
+import { BlockEdits, applyBlockEdits } from './utils/blockEdits';
+import { blockIndexAt } from './utils/textLayout';
+import { generatePaperSummary, chatWithPaper, retrievePassages, embedPaperIndex, explainEquation } from './services/geminiService';
+import { getProviders, getActiveSelection, setActiveSelection, ModelSelection } from './services/llmProviders';
+import { RequestPriority } from './services/requestScheduler';
+import { ServiceError, toServiceError, describeServiceError } from './services/errors';
+import { translateAndSavePage, createBatchTranslationJob, getSavedBatchJobFlag, BatchJobState, BatchTranslationJob } from './services/batchTranslation';
+import { getLanguageSettings, setLanguageSettings, setPaperLanguage, LANGUAGES, LanguageSettings } from './services/languages';
+import { setUsagePaper, setExpensiveCallConfirm, isPrefetchPaused, USAGE_FEATURE_LABELS } from './services/usageTracker';
 import SummaryView from './components/SummaryView';
 import ChatInterface from './components/ChatInterface';
 import Translator from './components/Translator';
 import PDFViewer from './components/PDFViewer';
 import TranslationViewer from './components/TranslationViewer';
+import UsagePanel from './components/UsagePanel';
+import PromptSettings from './components/PromptSettings';
+import ExportDialog from './components/ExportDialog';
+import TermBase from './components/TermBase';
+import BatchProgressPanel from './components/BatchProgressPanel';
+import CitationOracle from './components/CitationOracle';
+import ReadingList from './components/ReadingList';
+import BibliographyManager from './components/BibliographyManager';
+import EquationLens from './components/EquationLens';
 import { UploadIcon, BookOpenIcon, XIcon, SettingsIcon, GripVerticalIcon, StarIcon } from './components/IconComponents';
 
 const App: React.FC = () => {
@@ -17,12 +36,14 @@ const App: React.FC = () => {
   const [file, setFile] = useState<PaperFile | null>(null);
   const [fileFingerprint, setFileFingerprint] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState<SidebarTab | 'DUAL'>('DUAL');
-  const [aiModel, setAiModel] = useState<'gemini' | 'deepseek'>('gemini');
+  const [modelSelection, setModelSelection] = useState<ModelSelection>(getActiveSelection);
   
   // PDF State
   const [currentPage, setCurrentPage] = useState(1);
   const [debouncedPage, setDebouncedPage] = useState(1);
-  const [highlightText, setHighlightText] = useState<string | null>(null);
+  const [highlightBlock, setHighlightBlock] = useState<ContentBlock | null>(null);
+  const [focusBlock, setFocusBlock] = useState<{ index: number } | null>(null);
+  const [translatorPrefill, setTranslatorPrefill] = useState<{ text: string; pageNumber?: number } | null>(null);
   const [triggerCapture, setTriggerCapture] = useState(0);
 
   // Layout State (Resizable)
@@ -34,6 +55,13 @@ const App: React.FC = () => {
 
   // Settings & Appearance
   const [showSettings, setShowSettings] = useState(false);
+  const [showUsage, setShowUsage] = useState(false);
+  const [showPrompts, setShowPrompts] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+  const [showTerms, setShowTerms] = useState(false);
+  const [showReadingList, setShowReadingList] = useState(false);
+  const [showBibliography, setShowBibliography] = useState(false);
+  const [languages, setLanguages] = useState<LanguageSettings>(getLanguageSettings);
   const [appearance, setAppearance] = useState<AppearanceSettings>({
     theme: 'sepia', // Default to Parchment mode for immersion
     fontSize: 16,
@@ -49,20 +77,32 @@ const App: React.FC = () => {
   // Data States
   const [summary, setSummary] = useState<PaperSummary | null>(null);
   const [fullText, setFullText] = useState<string>("");
+  const [paperIndex, setPaperIndex] = useState<PaperIndex | null>(null);
+  const [referenceIndex, setReferenceIndex] = useState<ReferenceIndex | null>(null);
+  const [bibliography, setBibliography] = useState<BibliographyEntry[]>([]);
   const [isSummarizing, setIsSummarizing] = useState(false);
+  const [summaryError, setSummaryError] = useState<ServiceError | null>(null);
+  const [summaryProgress, setSummaryProgress] = useState<SummaryProgress | null>(null);
   
   // Page Translation Cache (In-Memory + DB)
   const [pageTranslations, setPageTranslations] = useState<Map<number, PageTranslation>>(new Map());
   const [isTranslatingPage, setIsTranslatingPage] = useState(false);
+  const [pageErrors, setPageErrors] = useState<Map<number, ServiceError>>(new Map());
+
+  // Whole-paper Batch Translation
+  const batchJobRef = useRef<BatchTranslationJob | null>(null);
+  const [batchState, setBatchState] = useState<BatchJobState | null>(null);
+  const [showBatchPanel, setShowBatchPanel] = useState(false);
 
   // Interactive Overlays
-  const [citationInfo, setCitationInfo] = useState<CitationInfo | null>(null);
-  const [equationExplanation, setEquationExplanation] = useState<string | null>(null);
-  const [isAnalyzingCitation, setIsAnalyzingCitation] = useState(false);
+  const [citation, setCitation] = useState<{ text: string; labels: string[]; context: string } | null>(null);
+  const [equationExplanation, setEquationExplanation] = useState<EquationExplanation | null>(null);
   const [isAnalyzingEquation, setIsAnalyzingEquation] = useState(false);
+  const [equationError, setEquationError] = useState<{ equation: string; surrounding: string; error: ServiceError } | null>(null);
 
   const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
   const [isChatting, setIsChatting] = useState(false);
+  const chatAbortRef = useRef<AbortController | null>(null);
   
   // Shortcuts Feedback Toast
   const [toastMessage, setToastMessage] = useState<string | null>(null);
@@ -113,6 +153,25 @@ const App: React.FC = () => {
     return () => window.removeEventListener('keydown', handleKeyDown);
   }, [mode, currentPage, appearance]);
 
+  // A highlighted block belongs to the page it came from
+  useEffect(() => {
+    setHighlightBlock(null);
+  }, [currentPage]);
+
+  // Ask before requests whose estimated prompt exceeds the user's threshold (e.g. a whole PDF)
+  useEffect(() => {
+    setExpensiveCallConfirm(({ feature, model, estimatedTokens, estimatedCost }) => window.confirm(
+      `${USAGE_FEATURE_LABELS[feature]} 预计消耗约 ${estimatedTokens.toLocaleString()} Token` +
+      `${estimatedCost !== null ? ` (约 $${estimatedCost.toFixed(4)})` : ''}，模型 ${model}。\n确定继续吗？`
+    ));
+    return () => setExpensiveCallConfirm(null);
+  }, []);
+
+  // The imported BibTeX/RIS library is shared by all papers
+  useEffect(() => {
+    getBibliographyEntries().then(setBibliography).catch(e => console.warn("[Bibliography] Failed to load imported entries:", e));
+  }, []);
+
   const showToast = (msg: string) => {
     setToastMessage(msg);
     setTimeout(() => setToastMessage(null), 2000);
@@ -159,6 +218,7 @@ const App: React.FC = () => {
       const base64Data = await fileToBase64(selectedFile);
       const fingerprint = await generateFingerprint(selectedFile);
       setFileFingerprint(fingerprint);
+      setUsagePaper(fingerprint).catch(e => console.warn("[Usage] Failed to load paper usage:", e));
 
       const newFile: PaperFile = {
         name: selectedFile.name,
@@ -169,48 +229,120 @@ const App: React.FC = () => {
 
       setFile(newFile);
       setMode(AppMode.READING);
+
+      // Pick up a whole-paper translation job left unfinished by a reload
+      const savedJob = getSavedBatchJobFlag(fingerprint);
+      if (savedJob) {
+        startBatchJob(fingerprint, base64Data, savedJob === 'paused');
+        setShowBatchPanel(true);
+      }
       setCurrentPage(1);
       setDebouncedPage(1);
       
       // 2. Check Cache for Summary
+      setSummaryError(null);
       try {
         setIsSummarizing(true);
-        const cachedData = await getSummary(fingerprint);
-        
+        // Text cached by an older extractor is re-extracted, and everything derived from it rebuilt
+        const storedText = await getPaperText(fingerprint);
+        // A summary cached next to stale text was made from the first 10 pages only
+        const cachedData = storedText ? await getSummary(fingerprint) : undefined;
         if (cachedData) {
           console.log(`[Cache] 🎯 Summary hit for ${fingerprint}`);
           setSummary(cachedData.summary);
-          setFullText(cachedData.fullText || "");
           setIsSummarizing(false);
-        } else {
+        }
+
+        const textContent = storedText ?? await extractTextFromPdf(base64Data);
+        if (!storedText) await savePaperText(fingerprint, selectedFile.name, textContent);
+        setFullText(textContent);
+        setPaperLanguage(textContent);
+        preparePaperIndex(fingerprint, selectedFile.name, textContent, !storedText);
+        prepareReferences(fingerprint, selectedFile.name, textContent, !storedText);
+
+        if (!cachedData) {
           console.log("[Cache] 💨 Miss. Generating summary...");
-          // A. Extract Text (Local CPU)
-          const textContent = await extractTextFromPdf(base64Data);
-          setFullText(textContent);
-          
-          // B. Generate Summary (API)
-          const newSummary = await generatePaperSummary(textContent);
-          
-          // C. Save to Cache
-          await saveSummary(fingerprint, selectedFile.name, newSummary, textContent);
-          
-          setSummary(newSummary);
-          setIsSummarizing(false);
+          await runSummary(fingerprint, selectedFile.name, textContent);
         }
       } catch (error) {
         console.error("Processing failed:", error);
-        setSummary({
-          title: "解析失败",
-          tags: ["ERROR"],
-          tldr: { painPoint: "无法读取文件", solution: "请重试或检查文件", effect: "无" },
-          methodology: [],
-          takeaways: []
-        });
+        setSummaryError(toServiceError(error));
         setIsSummarizing(false);
       }
     }
   };
 
+  // Generates and caches the summary. Failures are surfaced, never persisted.
+  const runSummary = async (fingerprint: string, name: string, textContent: string) => {
+    setIsSummarizing(true);
+    setSummaryError(null);
+    try {
+      const newSummary = await generatePaperSummary(textContent, {
+        onProgress: setSummaryProgress,
+        chunkCache: {
+          get: (key) => getSummaryChunk(fingerprint, key),
+          set: (key, chunk) => saveSummaryChunk(fingerprint, key, chunk)
+        }
+      });
+      await saveSummary(fingerprint, name, newSummary);
+      setSummary(newSummary);
+    } catch (error) {
+      console.error("Summary failed:", error);
+      setSummaryError(toServiceError(error));
+    } finally {
+      setIsSummarizing(false);
+      setSummaryProgress(null);
+    }
+  };
+
+  // Loads or builds the local passage index used to ground chat answers.
+  // Embeddings are added in the background when an embedding model is configured.
+  const preparePaperIndex = async (fingerprint: string, name: string, textContent: string, rebuild = false) => {
+    try {
+      let index = rebuild ? undefined : await getPaperIndex(fingerprint);
+      if (!index || index.version !== INDEX_VERSION) {
+        index = buildPaperIndex(textContent);
+        await savePaperIndex(fingerprint, name, index);
+      }
+      setPaperIndex(index);
+
+      const embedded = await embedPaperIndex(index);
+      if (embedded !== index) {
+        await savePaperIndex(fingerprint, name, embedded);
+        // Only swap in if the user hasn't opened another paper meanwhile
+        setPaperIndex(prev => prev === index ? embedded : prev);
+      }
+    } catch (error) {
+      console.warn("[Retrieval] Index preparation failed:", error);
+    }
+  };
+
+  // Loads or parses the paper's reference list, which citation clicks resolve against
+  const prepareReferences = async (fingerprint: string, name: string, textContent: string, rebuild = false) => {
+    try {
+      let index = await getReferenceIndex(fingerprint);
+      if (!index || rebuild || index.version !== REFERENCE_INDEX_VERSION) {
+        index = carryOverAnnotations(buildReferenceIndex(textContent), index);
+        await saveReferenceIndex(fingerprint, name, index);
+      }
+      setReferenceIndex(index);
+    } catch (error) {
+      console.warn("[References] Reference list preparation failed:", error);
+      setReferenceIndex(buildReferenceIndex(textContent));
+    }
+  };
+
+  const handleRetrySummary = async () => {
+    if (!file || !fileFingerprint) return;
+    try {
+      const textContent = fullText || await extractTextFromPdf(file.base64);
+      setFullText(textContent);
+      await runSummary(fileFingerprint, file.name, textContent);
+    } catch (error) {
+      setSummaryError(toServiceError(error));
+    }
+  };
+
   // Debounce Page Change
   useEffect(() => {
     const handler = setTimeout(() => {
@@ -232,7 +364,7 @@ const App: React.FC = () => {
         if (cachedTrans) {
            console.log(`[Cache] 📖 Page ${debouncedPage} hit.`);
            setPageTranslations(prev => new Map(prev).set(debouncedPage, cachedTrans));
-        } else if (!isTranslatingPage) {
+        } else if (!isTranslatingPage && !pageErrors.has(debouncedPage)) {
            // Not in DB, trigger capture to call API
            console.log(`[Trans] ⚡ Requesting capture for Page ${debouncedPage}`);
            setTriggerCapture(prev => prev + 1);
@@ -248,8 +380,8 @@ const App: React.FC = () => {
            const cachedNext = await getPageTranslation(fileFingerprint, nextPage);
            if (cachedNext) {
               setPageTranslations(prev => new Map(prev).set(nextPage, cachedNext));
-           } else {
-              // Not in DB, set as prefetch target
+           } else if (!isPrefetchPaused()) {
+              // Not in DB, set as prefetch target (skipped once the paper's budget is spent)
               setPrefetchPage(nextPage);
            }
         }
@@ -257,50 +389,33 @@ const App: React.FC = () => {
     };
     
     checkAndTrigger();
-  }, [debouncedPage, mode, pageTranslations, isTranslatingPage, fileFingerprint]);
+  }, [debouncedPage, mode, pageTranslations, pageErrors, isTranslatingPage, fileFingerprint]);
 
 
   const processCanvas = async (canvas: HTMLCanvasElement, pageNum: number) => {
     // Double check if we already have it to avoid race conditions
-    if (pageTranslations.has(pageNum)) return;
+    if (!file || !fileFingerprint || pageTranslations.has(pageNum)) return;
 
-    if (pageNum === debouncedPage) setIsTranslatingPage(true);
+    if (pageNum === debouncedPage) {
+      setIsTranslatingPage(true);
+      setPageErrors(prev => {
+        const next = new Map(prev);
+        next.delete(pageNum);
+        return next;
+      });
+    }
 
     try {
-      // 1. Downscale for API efficiency
-      const MAX_DIMENSION = 1000;
-      let width = canvas.width;
-      let height = canvas.height;
-      let imageBase64 = '';
-      if (width > MAX_DIMENSION || height > MAX_DIMENSION) {
-          const scale = Math.min(MAX_DIMENSION / width, MAX_DIMENSION / height);
-          const tempCanvas = document.createElement('canvas');
-          tempCanvas.width = width * scale;
-          tempCanvas.height = height * scale;
-          const ctx = tempCanvas.getContext('2d');
-          if (ctx) {
-            ctx.drawImage(canvas, 0, 0, tempCanvas.width, tempCanvas.height);
-            imageBase64 = tempCanvas.toDataURL('image/jpeg', 0.6).split(',')[1];
-          } else {
-            imageBase64 = canvas.toDataURL('image/jpeg', 0.6).split(',')[1];
-          }
-      } else {
-          imageBase64 = canvas.toDataURL('image/jpeg', 0.6).split(',')[1];
-      }
+      const priority = pageNum === debouncedPage ? RequestPriority.VISIBLE_PAGE : RequestPriority.PREFETCH;
 
-      // 2. API Call
-      const translation = await translatePageContent(imageBase64);
-      translation.pageNumber = pageNum;
-
-      // 3. Save to DB
-      if (fileFingerprint) {
-        await savePageTranslation(fileFingerprint, pageNum, translation);
-      }
+      // 1. Text layer first; the rendered canvas is only used for pages without one.
+      // Saving keeps any user edits of this page and collects its glossary into the term base
+      const saved = await translateAndSavePage(fileFingerprint, file.base64, pageNum, { priority, canvas });
 
-      // 4. Update State
+      // 2. Update State
       setPageTranslations(prev => {
         const newMap = new Map(prev);
-        newMap.set(pageNum, translation);
+        newMap.set(pageNum, saved);
         return newMap;
       });
       
@@ -310,19 +425,9 @@ const App: React.FC = () => {
 
     } catch(e) {
       console.error(e);
-      // If main page fails, mark error locally so we don't retry loop infinitely
+      // Remember the failure (never cache it) so the auto-translate effect doesn't retry in a loop
       if (pageNum === debouncedPage) {
-        const errorBlock: ContentBlock = {
-            type: 'paragraph',
-            en: '',
-            cn: '魔法能量紊乱，无法解析卷轴内容...请稍后重试。'
-        };
-        const errTrans = { pageNumber: pageNum, blocks: [errorBlock], glossary: [] };
-        setPageTranslations(prev => {
-            const newMap = new Map(prev);
-            newMap.set(pageNum, errTrans);
-            return newMap;
-        });
+        setPageErrors(prev => new Map(prev).set(pageNum, toServiceError(e)));
       }
     } finally {
       if (pageNum === debouncedPage) setIsTranslatingPage(false);
@@ -346,37 +451,110 @@ const App: React.FC = () => {
 
   // --- Interaction Handlers ---
 
-  const handleCitationClick = async (id: string) => {
-    if (!file) return;
-    setIsAnalyzingCitation(true);
-    setCitationInfo(null);
-    try {
-      const info = await analyzeCitation(id, file.base64, file.mimeType);
-      setCitationInfo(info);
-    } catch (e) {
-      console.error(e);
-    } finally {
-      setIsAnalyzingCitation(false);
-    }
+  const handleCitationClick = ({ text, labels }: DetectedCitation, context: string) => {
+    setCitation({ text, labels, context });
+  };
+
+  // Notes and reading status are kept with the reference list, so each reference is only explained once
+  const handleReferenceUpdate = (label: string, patch: Pick<Reference, 'note'> | Pick<Reference, 'status'>) => {
+    if (!referenceIndex || !fileFingerprint) return;
+    const apply = (index: ReferenceIndex): ReferenceIndex => ({
+      ...index,
+      references: index.references.map(r => r.label === label ? { ...r, ...patch } : r)
+    });
+    setReferenceIndex(prev => prev && apply(prev));
+    // Patched against the stored list, which the reading list may have changed meanwhile
+    updateReferenceIndex(fileFingerprint, apply).catch(e => console.warn("[References] Failed to save reference:", e));
+  };
+
+  // The reading list may change statuses of the open paper's references
+  const handleReadingListChanged = (fingerprints: string[]) => {
+    if (!fileFingerprint || !fingerprints.includes(fileFingerprint)) return;
+    getReferenceIndex(fileFingerprint)
+      .then(index => { if (index) setReferenceIndex(index); })
+      .catch(e => console.warn("[References] Failed to reload references:", e));
   };
 
-  const handleEquationClick = async (eq: string) => {
+  // The paper's own definitions of the symbols are looked up locally and sent along
+  const handleEquationClick = async (eq: string, surrounding: string) => {
     setIsAnalyzingEquation(true);
     setEquationExplanation(null);
+    setEquationError(null);
     try {
-      const expl = await explainEquation(eq);
+      const definitions = findSymbolDefinitions(fullText, eq);
+      const expl = await explainEquation(eq, { surrounding, definitions });
       setEquationExplanation(expl);
     } catch(e) {
       console.error(e);
+      setEquationError({ equation: eq, surrounding, error: toServiceError(e) });
     } finally {
       setIsAnalyzingEquation(false);
     }
   };
 
-  const handleContextSelection = (text: string, action: 'explain' | 'save') => {
+  const handleRetryPage = () => {
+    if (pageTranslations.has(debouncedPage)) {
+      refreshPage(debouncedPage);
+      return;
+    }
+    setPageErrors(prev => {
+      const next = new Map(prev);
+      next.delete(debouncedPage);
+      return next;
+    });
+    setTriggerCapture(prev => prev + 1);
+  };
+
+  // Re-translate a page that already has a translation; edited and locked blocks are kept
+  const refreshPage = async (pageNum: number) => {
+    if (!file || !fileFingerprint || isTranslatingPage) return;
+    setIsTranslatingPage(true);
+    try {
+      const saved = await translateAndSavePage(fileFingerprint, file.base64, pageNum, { priority: RequestPriority.VISIBLE_PAGE });
+      setPageTranslations(prev => new Map(prev).set(pageNum, saved));
+    } catch (e) {
+      console.error(e);
+      showToast(describeServiceError(toServiceError(e)).title);
+    } finally {
+      setIsTranslatingPage(false);
+    }
+  };
+
+  const handleBlockEditsChange = (edits: BlockEdits) => {
+    const current = pageTranslations.get(debouncedPage);
+    if (!current || !fileFingerprint) return;
+    setPageTranslations(prev => new Map(prev).set(debouncedPage, { ...current, edits }));
+    saveBlockEdits(fileFingerprint, debouncedPage, edits).catch(e => {
+      console.error("Failed to save edits:", e);
+      showToast("修订保存失败");
+    });
+  };
+
+  // Clicking a region of the PDF page scrolls the translation to the block drawn there
+  const handleRegionClick = (x: number, y: number) => {
+    const current = pageTranslations.get(currentPage);
+    if (!current || currentPage !== debouncedPage) return;
+    const blocks = applyBlockEdits(current);
+    const index = blockIndexAt(blocks, x, y);
+    if (index === -1) return;
+    setHighlightBlock(blocks[index]);
+    setFocusBlock({ index });
+  };
+
+  const handleLanguageChange = (patch: Partial<LanguageSettings>) => {
+    const next = { ...languages, ...patch };
+    setLanguages(next);
+    setLanguageSettings(next);
+    if (patch.target) showToast("新的目标语言对之后翻译的页面生效，已缓存的页面可点「重铸法术」重译");
+  };
+
+  const handleContextSelection = (text: string, action: 'explain' | 'save' | 'translate') => {
     if (action === 'explain') {
       setActiveTab(SidebarTab.CHAT);
       handleSendMessage(`请通俗解释这段话：\n"${text}"`);
+    } else if (action === 'translate') {
+      setTranslatorPrefill({ text, pageNumber: currentPage });
+      setActiveTab(SidebarTab.TRANSLATE);
     } else if (action === 'save') {
       const newNote: Note = {
         id: Date.now().toString(),
@@ -389,37 +567,117 @@ const App: React.FC = () => {
     }
   };
 
+  // Replace the trailing model message while it is streaming in
+  const updateLastModelMessage = (patch: Partial<ChatMessage>) => {
+    setChatMessages(prev => {
+      const next = [...prev];
+      const last = next[next.length - 1];
+      if (last && last.role === 'model') next[next.length - 1] = { ...last, ...patch };
+      return next;
+    });
+  };
+
   const handleSendMessage = async (text: string) => {
+    if (!file) return;
     const newUserMsg: ChatMessage = { role: 'user', text };
-    setChatMessages(prev => [...prev, newUserMsg]);
+    // Error placeholders and empty turns (e.g. stopped before the first token) are not part of the conversation
+    const historyForApi = chatMessages
+      .filter(m => !m.isError && m.text.trim())
+      .map(m => ({ role: m.role, text: m.text }));
+    setChatMessages(prev => [...prev, newUserMsg, { role: 'model', text: '', isStreaming: true }]);
     setIsChatting(true);
+
+    const controller = new AbortController();
+    chatAbortRef.current = controller;
+    let answer = '';
     
     try {
-      let answer = '';
-      if (aiModel === 'deepseek') {
-        const response = await chatWithDeepSeek(text);
-        answer = response || "DeepSeek 没有返回内容";
-      } else {
-        if (!file) return;
-        const historyForApi = chatMessages.map(m => ({ role: m.role, text: m.text }));
-        answer = await chatWithPaper(historyForApi, text, file.base64, file.mimeType);
+      const index = paperIndex || (fullText ? buildPaperIndex(fullText) : null);
+      const passages = index ? await retrievePassages(index, text, currentPage, controller.signal) : [];
+      const stream = chatWithPaper(historyForApi, text, { passages, fullText }, controller.signal);
+
+      for await (const delta of stream) {
+        answer += delta;
+        updateLastModelMessage({ text: answer });
       }
       
-      setChatMessages(prev => [...prev, { role: 'model', text: answer }]);
+      updateLastModelMessage(answer ? { text: answer, isStreaming: false } : { text: "模型没有返回内容", isStreaming: false, isError: true });
     } catch (err) {
-      setChatMessages(prev => [...prev, { role: 'model', text: "喵？网络似乎不通畅... 请重试", isError: true }]);
+      if (controller.signal.aborted) {
+        // Keep whatever arrived before the user pressed stop
+        updateLastModelMessage({ text: answer, isStreaming: false, isStopped: true });
+      } else {
+        console.error(err);
+        updateLastModelMessage({ text: answer || "喵？网络似乎不通畅... 请重试", isStreaming: false, isError: !answer, isStopped: !!answer });
+      }
     } finally {
+      chatAbortRef.current = null;
       setIsChatting(false);
     }
   };
 
+  const handleStopChat = () => {
+    chatAbortRef.current?.abort();
+  };
+
+  const handleModelSelect = (selection: ModelSelection) => {
+    setActiveSelection(selection);
+    setModelSelection(selection);
+    showToast(`已切换至 ${selection.model}`);
+  };
+
+  // Starts (or restores) the background job that translates every page of the paper
+  const startBatchJob = (fingerprint: string, base64Pdf: string, paused = false) => {
+    batchJobRef.current?.dispose();
+    const job = createBatchTranslationJob({
+      fingerprint,
+      base64Pdf,
+      onPageDone: (translation) => {
+        setPageTranslations(prev => prev.has(translation.pageNumber) ? prev : new Map(prev).set(translation.pageNumber, translation));
+        setPageErrors(prev => {
+          if (!prev.has(translation.pageNumber)) return prev;
+          const next = new Map(prev);
+          next.delete(translation.pageNumber);
+          return next;
+        });
+      }
+    });
+    batchJobRef.current = job;
+    job.subscribe(setBatchState);
+    job.start({ paused }).catch(e => {
+      console.error("Batch translation failed to start:", e);
+      showToast("全卷翻译启动失败");
+    });
+  };
+
+  const handleTranslateAll = () => {
+    if (!file || !fileFingerprint) return;
+    const status = batchJobRef.current?.getState().status;
+    if (status !== 'running' && status !== 'paused') {
+      startBatchJob(fileFingerprint, file.base64);
+    }
+    setShowBatchPanel(true);
+  };
+
   const resetApp = () => {
+    chatAbortRef.current?.abort();
+    batchJobRef.current?.dispose();
+    batchJobRef.current = null;
+    setBatchState(null);
+    setShowBatchPanel(false);
     setFile(null);
     setFileFingerprint(null);
+    setUsagePaper(null);
+    setPaperLanguage(null);
     setMode(AppMode.UPLOAD);
     setSummary(null);
+    setSummaryError(null);
+    setPaperIndex(null);
+    setReferenceIndex(null);
+    setCitation(null);
     setChatMessages([]);
     setPageTranslations(new Map());
+    setPageErrors(new Map());
     setTriggerCapture(0);
     setCurrentPage(1);
     setDebouncedPage(1);
@@ -488,6 +746,25 @@ const App: React.FC = () => {
          </div>
 
          <div className="flex gap-2 items-center">
+           {/* Whole-paper Translation */}
+           <button
+              onClick={handleTranslateAll}
+              title="翻译整篇论文 (Translate entire paper)"
+              className={`px-2 py-1 rounded border-2 text-[10px] font-bold pixel-font ${batchState?.status === 'running' ? 'bg-[#DAA520] text-[#2c1810] border-[#DAA520] animate-pulse' : 'bg-transparent text-[#DAA520] border-[#DAA520] hover:bg-[#DAA520]/20'}`}
+           >
+             全卷翻译 {batchState && batchState.pages.length > 0 && `${batchState.pages.filter(p => p === 'done').length}/${batchState.pages.length}`}
+           </button>
+
+           {/* Export Translation */}
+           <button
+              onClick={() => setShowExport(true)}
+              disabled={!fileFingerprint}
+              title="导出译文 (Export translation)"
+              className="px-2 py-1 rounded border-2 text-[10px] font-bold pixel-font bg-transparent text-[#DAA520] border-[#DAA520] hover:bg-[#DAA520]/20 disabled:opacity-40"
+           >
+             导出
+           </button>
+
            {/* Appearance Settings Button */}
            <div className="relative">
              <button 
@@ -503,22 +780,55 @@ const App: React.FC = () => {
                   {/* Model Switcher */}
                   <div className="mb-4 border-b-2 border-[#8B4513]/20 pb-4">
                     <h4 className="pixel-font text-xs font-bold mb-2 text-[#2c1810]">AI 模型 (MODEL)</h4>
-                    <div className="flex gap-2">
-                      <button 
-                        onClick={() => setAiModel('gemini')}
-                        className={`flex-1 py-1 text-xs border-2 font-bold transition-all ${aiModel === 'gemini' ? 'bg-[#2c1810] text-[#DAA520] border-[#DAA520]' : 'border-[#8B4513] text-[#8B4513] opacity-50'}`}
-                      >
-                        Gemini
-                      </button>
-                      <button 
-                        onClick={() => setAiModel('deepseek')}
-                        className={`flex-1 py-1 text-xs border-2 font-bold transition-all ${aiModel === 'deepseek' ? 'bg-[#000080] text-[#fff] border-[#0000ff]' : 'border-[#8B4513] text-[#8B4513] opacity-50'}`}
-                      >
-                        DeepSeek
-                      </button>
+                    <div className="space-y-2 max-h-48 overflow-y-auto">
+                      {getProviders().map(provider => (
+                        <div key={provider.id}>
+                          <p className={`text-[10px] font-bold mb-1 ${provider.isConfigured() ? 'text-[#8B4513]' : 'text-gray-400'}`}>
+                            {provider.label}{!provider.isConfigured() && ' (未配置)'}
+                          </p>
+                          <div className="flex flex-wrap gap-1">
+                            {provider.models.map(model => {
+                              const isActive = modelSelection.providerId === provider.id && modelSelection.model === model;
+                              return (
+                                <button
+                                  key={model}
+                                  onClick={() => handleModelSelect({ providerId: provider.id, model })}
+                                  disabled={!provider.isConfigured()}
+                                  title={provider.supportsVision ? '支持识图' : '仅文本'}
+                                  className={`px-2 py-1 text-[10px] border-2 font-bold transition-all truncate max-w-full disabled:cursor-not-allowed ${isActive ? 'bg-[#2c1810] text-[#DAA520] border-[#DAA520]' : 'border-[#8B4513] text-[#8B4513] opacity-50'}`}
+                                >
+                                  {model}
+                                </button>
+                              );
+                            })}
+                          </div>
+                        </div>
+                      ))}
                     </div>
                   </div>
               
+                  {/* Languages */}
+                  <div className="mb-4 border-b-2 border-[#8B4513]/20 pb-4 space-y-2">
+                    <h4 className="pixel-font text-xs font-bold mb-2 text-[#2c1810]">语言 (LANGUAGE)</h4>
+                    {([
+                      ['source', '原文'],
+                      ['target', '译文'],
+                      ['ui', '回复']
+                    ] as [keyof LanguageSettings, string][]).map(([key, label]) => (
+                      <label key={key} className="flex items-center justify-between text-xs font-bold text-[#8B4513]">
+                        {label}
+                        <select
+                          value={languages[key]}
+                          onChange={(e) => handleLanguageChange({ [key]: e.target.value })}
+                          className="w-32 px-1 py-0.5 border-2 border-[#8B4513] bg-[#f5f2e9] text-[#2c1810] font-normal"
+                        >
+                          {key === 'source' && <option value="auto">自动检测 (Auto)</option>}
+                          {LANGUAGES.map(l => <option key={l.code} value={l.code}>{l.label}</option>)}
+                        </select>
+                      </label>
+                    ))}
+                  </div>
+
                  <h4 className="pixel-font text-xs font-bold mb-4 text-[#2c1810]">外观 (APPEARANCE)</h4>
                  
                  {/* Theme Toggle */}
@@ -570,6 +880,40 @@ const App: React.FC = () => {
                    </div>
                  </div>
 
+                 {/* Usage Ledger, Prompt Templates, Term Base, Reading List & Bibliography */}
+                 <div className="mb-4 space-y-2">
+                   <button
+                     onClick={() => { setShowPrompts(true); setShowSettings(false); }}
+                     className="w-full py-1 text-xs border-2 border-[#8B4513] text-[#8B4513] font-bold hover:bg-[#8B4513] hover:text-[#e8e4d9]"
+                   >
+                     咒语书 (PROMPTS)
+                   </button>
+                   <button
+                     onClick={() => { setShowTerms(true); setShowSettings(false); }}
+                     className="w-full py-1 text-xs border-2 border-[#8B4513] text-[#8B4513] font-bold hover:bg-[#8B4513] hover:text-[#e8e4d9]"
+                   >
+                     术语库 (TERMS)
+                   </button>
+                   <button
+                     onClick={() => { setShowReadingList(true); setShowSettings(false); }}
+                     className="w-full py-1 text-xs border-2 border-[#8B4513] text-[#8B4513] font-bold hover:bg-[#8B4513] hover:text-[#e8e4d9]"
+                   >
+                     必读书单 (READING)
+                   </button>
+                   <button
+                     onClick={() => { setShowBibliography(true); setShowSettings(false); }}
+                     className="w-full py-1 text-xs border-2 border-[#8B4513] text-[#8B4513] font-bold hover:bg-[#8B4513] hover:text-[#e8e4d9]"
+                   >
+                     文献库 (BIBLIOGRAPHY)
+                   </button>
+                   <button
+                     onClick={() => { setShowUsage(true); setShowSettings(false); }}
+                     className="w-full py-1 text-xs border-2 border-[#8B4513] text-[#8B4513] font-bold hover:bg-[#8B4513] hover:text-[#e8e4d9]"
+                   >
+                     魔力账本 (USAGE)
+                   </button>
+                 </div>
+
                  {/* Shortcuts Guide */}
                  <div className="pt-4 border-t-2 border-[#8B4513]/20">
                     <h5 className="font-bold text-[10px] mb-2 text-[#2c1810]">快捷键 (SHORTCUTS)</h5>
@@ -585,7 +929,7 @@ const App: React.FC = () => {
            </div>
 
            {/* Tabs */}
-           {['DUAL', SidebarTab.SUMMARY, SidebarTab.CHAT, SidebarTab.NOTES].map((tab) => (
+           {['DUAL', SidebarTab.SUMMARY, SidebarTab.CHAT, SidebarTab.TRANSLATE, SidebarTab.NOTES].map((tab) => (
              <button 
                key={tab}
                onClick={() => setActiveTab(tab as any)}
@@ -616,9 +960,11 @@ const App: React.FC = () => {
                pageNumber={currentPage}
                onPageChange={setCurrentPage}
                onPageRendered={handleMainPageRendered}
-               highlightText={highlightText}
+               highlightText={highlightBlock?.source}
+               highlightBox={highlightBlock?.bbox}
                triggerCapture={triggerCapture}
                onTextSelected={handleContextSelection}
+               onRegionClick={handleRegionClick}
              />
           )}
         </div>
@@ -641,22 +987,35 @@ const App: React.FC = () => {
              <TranslationViewer 
                translation={pageTranslations.get(debouncedPage)}
                isLoading={isTranslatingPage}
-               onHoverBlock={setHighlightText}
-               onRetry={() => setTriggerCapture(prev => prev + 1)}
+               error={pageErrors.get(debouncedPage) || null}
+               onHoverBlock={setHighlightBlock}
+               onRetry={handleRetryPage}
                onCitationClick={handleCitationClick}
                onEquationClick={handleEquationClick}
+               onEditsChange={handleBlockEditsChange}
+               focusBlock={focusBlock}
+               pdfBase64={file?.base64}
+               references={referenceIndex}
                appearance={appearance}
              />
           )}
 
           {activeTab === SidebarTab.SUMMARY && (
              <div className="p-0 h-full overflow-y-auto bg-[#f4ecd8]">
-               <SummaryView summary={summary} isLoading={isSummarizing} error={null} />
+               <SummaryView summary={summary} isLoading={isSummarizing} progress={summaryProgress} error={summaryError} onRetry={handleRetrySummary} />
              </div>
           )}
           
           {activeTab === SidebarTab.CHAT && (
-             <ChatInterface messages={chatMessages} onSendMessage={handleSendMessage} isSending={isChatting} />
+             <ChatInterface messages={chatMessages} onSendMessage={handleSendMessage} onStop={handleStopChat} isSending={isChatting} />
+          )}
+
+          {activeTab === SidebarTab.TRANSLATE && (
+             <Translator
+               fingerprint={fileFingerprint}
+               prefill={translatorPrefill}
+               onPrefillHandled={() => setTranslatorPrefill(null)}
+             />
           )}
 
           {activeTab === SidebarTab.NOTES && (
@@ -691,57 +1050,75 @@ const App: React.FC = () => {
         {/* Modals / Overlays */}
         
         {/* Citation Oracle Modal */}
-        {(isAnalyzingCitation || citationInfo) && (
-          <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/50 p-4 animate-in fade-in">
-            <div className="bg-[#e8e4d9] w-full max-w-md border-4 border-[#2c1810] shadow-2xl p-0 relative">
-               <div className="bg-[#2c1810] text-[#DAA520] p-2 flex justify-between items-center">
-                 <h3 className="pixel-font text-xs">真视之眼 (THE ORACLE)</h3>
-                 <button onClick={() => { setCitationInfo(null); setIsAnalyzingCitation(false); }} className="text-[#e8e4d9]">X</button>
-               </div>
-               <div className="p-6">
-                 {isAnalyzingCitation ? (
-                   <div className="text-center py-8">
-                     <div className="inline-block animate-spin text-2xl mb-2">🔮</div>
-                     <p className="pixel-font text-xs text-[#2c1810]">正在检索上古卷轴...</p>
-                   </div>
-                 ) : (
-                   <div className="space-y-4">
-                     <div className="flex justify-between items-start gap-4">
-                        <h4 className="font-bold text-lg text-[#2c1810] serif leading-tight">{citationInfo?.title}</h4>
-                        <span className={`shrink-0 px-2 py-1 text-[10px] border-2 font-bold pixel-font ${citationInfo?.status === 'MUST_READ' ? 'bg-[#8B4513] text-[#DAA520] border-[#DAA520]' : 'bg-[#e8e4d9] text-[#2c1810] border-[#2c1810]'}`}>
-                          {citationInfo?.status === 'MUST_READ' ? '必读圣经' : '普通文献'}
-                        </span>
-                     </div>
-                     <p className="text-sm text-[#5c4033] italic serif">{citationInfo?.year}</p>
-                     <div className="bg-[#f5f2e9] p-3 border-2 border-[#2c1810] text-sm text-[#2c1810] serif leading-relaxed">
-                       {citationInfo?.abstract}
-                     </div>
-                   </div>
-                 )}
-               </div>
-            </div>
-          </div>
+        {citation && (
+          <CitationOracle
+            citation={citation}
+            referenceIndex={referenceIndex}
+            bibliography={bibliography}
+            onUpdate={handleReferenceUpdate}
+            onClose={() => setCitation(null)}
+          />
+        )}
+
+        {/* Batch Translation Progress */}
+        {showBatchPanel && batchState && (
+          <BatchProgressPanel
+            state={batchState}
+            onPause={() => batchJobRef.current?.pause()}
+            onResume={() => batchJobRef.current?.resume()}
+            onCancel={() => batchJobRef.current?.cancel()}
+            onRetryFailed={() => batchJobRef.current?.retryFailed()}
+            onRestart={handleTranslateAll}
+            onPageClick={setCurrentPage}
+            onClose={() => setShowBatchPanel(false)}
+          />
+        )}
+
+        {/* Usage Ledger Modal */}
+        {showUsage && (
+          <UsagePanel fingerprint={fileFingerprint} paperName={file?.name} onClose={() => setShowUsage(false)} />
+        )}
+
+        {/* Term Base Modal */}
+        {showTerms && (
+          <TermBase onClose={() => setShowTerms(false)} onSaved={showToast} />
+        )}
+
+        {/* Reading List Modal */}
+        {showReadingList && (
+          <ReadingList onClose={() => setShowReadingList(false)} onChanged={handleReadingListChanged} onExported={showToast} />
+        )}
+
+        {/* Imported BibTeX/RIS Library */}
+        {showBibliography && (
+          <BibliographyManager entries={bibliography} onClose={() => setShowBibliography(false)} onChanged={setBibliography} />
+        )}
+
+        {/* Export Modal */}
+        {showExport && file && fileFingerprint && (
+          <ExportDialog
+            fingerprint={fileFingerprint}
+            base64Pdf={file.base64}
+            paperName={file.name}
+            onClose={() => setShowExport(false)}
+            onExported={(message) => { setShowExport(false); showToast(message); }}
+          />
+        )}
+
+        {/* Prompt Templates Modal */}
+        {showPrompts && (
+          <PromptSettings onClose={() => setShowPrompts(false)} onSaved={showToast} />
         )}
 
         {/* Equation Magic Lens Modal */}
-        {(isAnalyzingEquation || equationExplanation) && (
-          <div className="absolute bottom-0 left-1/2 -translate-x-1/2 w-full max-w-2xl z-50 p-4">
-            <div className="bg-[#2c1810] border-t-4 border-l-4 border-r-4 border-[#DAA520] shadow-2xl p-0 relative rounded-t-lg">
-               <div className="flex justify-between items-center p-2 border-b border-[#DAA520]/30">
-                 <h3 className="text-[#DAA520] pixel-font text-xs">魔镜解析 (MAGIC LENS)</h3>
-                 <button onClick={() => { setEquationExplanation(null); setIsAnalyzingEquation(false); }} className="text-[#e8e4d9] hover:text-[#DAA520]">CLOSE</button>
-               </div>
-               <div className="p-4 min-h-[150px] max-h-[300px] overflow-y-auto">
-                 {isAnalyzingEquation ? (
-                    <div className="text-[#e8e4d9] pixel-font text-xs animate-pulse">正在解构符文...</div>
-                 ) : (
-                    <div className="prose prose-invert prose-sm max-w-none text-[#e8e4d9] serif">
-                       <ReactMarkdown>{equationExplanation || ''}</ReactMarkdown>
-                    </div>
-                 )}
-               </div>
-            </div>
-          </div>
+        {(isAnalyzingEquation || equationExplanation || equationError) && (
+          <EquationLens
+            explanation={equationExplanation}
+            isLoading={isAnalyzingEquation}
+            error={equationError?.error || null}
+            onRetry={() => equationError && handleEquationClick(equationError.equation, equationError.surrounding)}
+            onClose={() => { setEquationExplanation(null); setEquationError(null); setIsAnalyzingEquation(false); }}
+          />
         )}
 
       </div>
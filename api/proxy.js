@@ -18,6 +18,12 @@ export default async function handler(req, res) {
   // 你的服务商地址 (这里写死，确保不出错)
   const TARGET_URL = "https://fanzisima.xyz/v1/chat/completions";
 
+  // 客户端断开 (例如用户点了停止) 时，同时中断上游请求
+  const upstreamController = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) upstreamController.abort();
+  });
+
   try {
     // 3. 发起伪装请求
     const response = await fetch(TARGET_URL, {
@@ -29,10 +35,27 @@ export default async function handler(req, res) {
         // 关键：伪装 User-Agent，防止被对方防火墙拦截 Vercel
         "User-Agent": "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36"
       },
-      body: JSON.stringify(req.body)
+      body: JSON.stringify(req.body),
+      signal: upstreamController.signal
     });
 
-    // 4. 处理返回结果
+    // 4. 流式请求：原样透传 SSE
+    if (req.body && req.body.stream && response.ok && response.body) {
+      res.setHeader('Content-Type', 'text/event-stream; charset=utf-8');
+      res.setHeader('Cache-Control', 'no-cache, no-transform');
+      res.setHeader('Connection', 'keep-alive');
+      res.status(200);
+
+      const reader = response.body.getReader();
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        res.write(Buffer.from(value));
+      }
+      return res.end();
+    }
+
+    // 5. 处理普通返回结果
     const data = await response.json();
 
     if (!response.ok) {
@@ -44,6 +67,10 @@ export default async function handler(req, res) {
     return res.status(200).json(data);
 
   } catch (error) {
+    if (upstreamController.signal.aborted || res.headersSent) {
+      // 客户端已经走了，或者流已经开始输出，只能直接结束
+      return res.end();
+    }
     console.error("Proxy Error:", error);
     return res.status(500).json({ error: "代理连接失败", details: error.message });
   }
@@ -0,0 +1,112 @@
+import React from 'react';
+import { BatchJobState, BatchPageStatus } from '../services/batchTranslation';
+import { describeServiceError } from '../services/errors';
+
+interface BatchProgressPanelProps {
+  state: BatchJobState;
+  onPause: () => void;
+  onResume: () => void;
+  onCancel: () => void;
+  onRetryFailed: () => void;
+  onRestart: () => void;
+  onPageClick: (page: number) => void;
+  onClose: () => void;
+}
+
+const STATUS_STYLES: Record<BatchPageStatus, string> = {
+  pending: 'bg-[#e8e4d9] border-[#8B4513]/40',
+  running: 'bg-[#DAA520] border-[#2c1810] animate-pulse',
+  done: 'bg-[#8B4513] border-[#2c1810]',
+  failed: 'bg-red-600 border-red-900'
+};
+
+const STATUS_LABELS: Record<BatchJobState['status'], string> = {
+  idle: '准备中 (READY)',
+  running: '施法中 (RUNNING)',
+  paused: '已暂停 (PAUSED)',
+  cancelled: '已取消 (CANCELLED)',
+  done: '已完成 (DONE)'
+};
+
+const BatchProgressPanel: React.FC<BatchProgressPanelProps> = ({
+  state, onPause, onResume, onCancel, onRetryFailed, onRestart, onPageClick, onClose
+}) => {
+  const count = (status: BatchPageStatus) => state.pages.filter(p => p === status).length;
+  const done = count('done');
+  const failed = count('failed');
+  const total = state.pages.length;
+  const percent = total > 0 ? Math.round((done / total) * 100) : 0;
+
+  return (
+    <div className="absolute top-4 left-4 z-40 w-80 bg-[#e8e4d9] border-4 border-[#2c1810] shadow-xl animate-in fade-in">
+      <div className="bg-[#2c1810] text-[#DAA520] p-2 flex justify-between items-center">
+        <h3 className="pixel-font text-xs">全卷翻译 (TRANSLATE ALL)</h3>
+        <button onClick={onClose} className="text-[#e8e4d9]">X</button>
+      </div>
+
+      <div className="p-3 space-y-3">
+        <div className="flex justify-between text-xs font-bold text-[#2c1810]">
+          <span>{STATUS_LABELS[state.status]}</span>
+          <span>{done}/{total} 页 · {percent}%</span>
+        </div>
+
+        <div className="h-2 bg-[#f5f2e9] border border-[#2c1810]">
+          <div className="h-full bg-[#8B4513] transition-all" style={{ width: `${percent}%` }} />
+        </div>
+
+        {state.pausedReason && (
+          <p className="text-[10px] text-red-700">{state.pausedReason}</p>
+        )}
+
+        {/* Per-page status; click a square to jump to that page */}
+        <div className="flex flex-wrap gap-1 max-h-32 overflow-y-auto custom-scrollbar">
+          {state.pages.map((status, i) => (
+            <button
+              key={i}
+              onClick={() => onPageClick(i + 1)}
+              title={`第 ${i + 1} 页: ${status}${state.errors[i + 1] ? ` · ${describeServiceError(state.errors[i + 1]).title}` : ''}`}
+              className={`w-4 h-4 border ${STATUS_STYLES[status]}`}
+            />
+          ))}
+        </div>
+
+        <div className="flex gap-3 text-[10px] text-[#5c4033]">
+          <span>待译 {count('pending')}</span>
+          <span>进行中 {count('running')}</span>
+          <span>完成 {done}</span>
+          <span className={failed > 0 ? 'text-red-700 font-bold' : ''}>失败 {failed}</span>
+        </div>
+
+        <div className="flex gap-2">
+          {state.status === 'running' && (
+            <button onClick={onPause} className="flex-1 py-1 text-[10px] border-2 border-[#8B4513] text-[#8B4513] font-bold">
+              暂停 (PAUSE)
+            </button>
+          )}
+          {state.status === 'paused' && (
+            <button onClick={onResume} className="flex-1 py-1 rpg-btn text-[10px] font-bold">
+              继续 (RESUME)
+            </button>
+          )}
+          {(state.status === 'running' || state.status === 'paused') && (
+            <button onClick={onCancel} className="flex-1 py-1 text-[10px] border-2 border-[#8B4513] text-[#8B4513] font-bold">
+              取消 (CANCEL)
+            </button>
+          )}
+          {(state.status === 'cancelled' || state.status === 'done') && (
+            <button onClick={onRestart} className="flex-1 py-1 rpg-btn text-[10px] font-bold">
+              重新开始 (RESTART)
+            </button>
+          )}
+          {failed > 0 && (
+            <button onClick={onRetryFailed} className="flex-1 py-1 text-[10px] border-2 border-red-700 text-red-700 font-bold">
+              重试失败页 (RETRY)
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BatchProgressPanel;
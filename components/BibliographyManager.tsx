@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+import { BibliographyEntry } from '../types';
+import { deleteBibliographySource, getBibliographyEntries, putBibliographyEntries } from '../utils/storage';
+import { parseBibliographyFile } from '../utils/bibliography';
+
+interface BibliographyManagerProps {
+  entries: BibliographyEntry[];
+  onClose: () => void;
+  onChanged: (entries: BibliographyEntry[]) => void; // the full imported library after a change
+}
+
+const BibliographyManager: React.FC<BibliographyManagerProps> = ({ entries, onClose, onChanged }) => {
+  const [message, setMessage] = useState<string | null>(null);
+  const [importing, setImporting] = useState(false);
+
+  // One row per imported file, newest first
+  const sources = Array.from(
+    entries.reduce((map, e) => {
+      const source = map.get(e.source) ?? { source: e.source, count: 0, importedAt: 0 };
+      map.set(e.source, { ...source, count: source.count + 1, importedAt: Math.max(source.importedAt, e.importedAt) });
+      return map;
+    }, new Map<string, { source: string; count: number; importedAt: number }>()).values()
+  ).sort((a, b) => b.importedAt - a.importedAt);
+
+  const handleFiles = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = '';
+    if (files.length === 0) return;
+    setImporting(true);
+    setMessage(null);
+    try {
+      const results: string[] = [];
+      for (const file of files) {
+        const parsed = parseBibliographyFile(await file.text(), file.name);
+        // Re-importing a file replaces what it brought in before
+        await deleteBibliographySource(file.name);
+        await putBibliographyEntries(parsed);
+        results.push(parsed.length > 0 ? `${file.name}：${parsed.length} 条` : `${file.name}：没有识别到条目`);
+      }
+      setMessage(results.join('；'));
+      onChanged(await getBibliographyEntries());
+    } catch (e) {
+      console.error("Bibliography import failed:", e);
+      setMessage('导入失败，请确认文件是 BibTeX 或 RIS 格式');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const handleDelete = async (source: string) => {
+    if (!window.confirm(`确定移除 "${source}" 导入的全部条目吗？`)) return;
+    await deleteBibliographySource(source);
+    onChanged(await getBibliographyEntries());
+  };
+
+  return (
+    <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/50 p-4 animate-in fade-in">
+      <div className="bg-[#e8e4d9] w-full max-w-md border-4 border-[#2c1810] shadow-2xl p-0 relative max-h-full flex flex-col">
+        <div className="bg-[#2c1810] text-[#DAA520] p-2 flex justify-between items-center">
+          <h3 className="pixel-font text-xs">文献库 (BIBLIOGRAPHY)</h3>
+          <button onClick={onClose} className="text-[#e8e4d9]">X</button>
+        </div>
+
+        <div className="p-4 space-y-4 overflow-y-auto custom-scrollbar text-[#2c1810]">
+          <p className="text-xs text-[#5c4033]">
+            导入整理好的 BibTeX / RIS 文件后，真视之眼会按 DOI、标题和年份匹配参考文献，并优先显示这里的标题、期刊和摘要。条目只保存在本地浏览器中，离线可用。
+          </p>
+
+          <label className={`block w-full py-2 text-center rpg-btn pixel-font text-xs cursor-pointer ${importing ? 'opacity-40 pointer-events-none' : ''}`}>
+            {importing ? '导入中...' : '导入 .bib / .ris (IMPORT)'}
+            <input type="file" accept=".bib,.ris,.txt" multiple className="hidden" onChange={handleFiles} />
+          </label>
+          {message && <p className="text-xs">{message}</p>}
+
+          <div className="space-y-1">
+            <h4 className="pixel-font text-xs font-bold text-[#8B4513]">已导入 {entries.length} 条</h4>
+            {sources.length === 0 ? (
+              <p className="text-xs text-center opacity-60 py-2">还没有导入任何文件</p>
+            ) : (
+              sources.map(s => (
+                <div key={s.source} className="flex items-center gap-2 p-2 border border-[#8B4513]/40 bg-[#f5f2e9]">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-xs font-bold truncate">{s.source}</p>
+                    <p className="text-[10px] opacity-60">{s.count} 条 · {new Date(s.importedAt).toLocaleString()}</p>
+                  </div>
+                  <button onClick={() => handleDelete(s.source)} className="text-[10px] text-red-700 font-bold" title="移除这个文件的条目">
+                    移除
+                  </button>
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BibliographyManager;
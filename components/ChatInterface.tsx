@@ -1,15 +1,16 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { ChatMessage } from '../types';
-import { SendIcon, LoaderIcon } from './IconComponents';
+import { SendIcon, LoaderIcon, StopIcon } from './IconComponents';
 import ReactMarkdown from 'react-markdown';
 
 interface ChatInterfaceProps {
   messages: ChatMessage[];
   onSendMessage: (text: string) => void;
+  onStop: () => void;
   isSending: boolean;
 }
 
-const ChatInterface: React.FC<ChatInterfaceProps> = ({ messages, onSendMessage, isSending }) => {
+const ChatInterface: React.FC<ChatInterfaceProps> = ({ messages, onSendMessage, onStop, isSending }) => {
   const [input, setInput] = useState('');
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
@@ -53,7 +54,7 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ messages, onSendMessage,
           </div>
         )}
         
-        {messages.map((msg, idx) => (
+        {messages.filter(msg => !(msg.isStreaming && !msg.text)).map((msg, idx) => (
           <div key={idx} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
             <div 
               className={`max-w-[85%] rounded p-3 text-sm leading-relaxed shadow-sm border-2 ${
@@ -67,13 +68,15 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ messages, onSendMessage,
               ) : (
                 <div className="prose prose-sm prose-p:text-[#2c1810] prose-headings:text-[#8B4513] max-w-none serif">
                   <ReactMarkdown>{msg.text}</ReactMarkdown>
+                  {msg.isStreaming && <span className="inline-block w-2 h-4 ml-0.5 align-middle bg-[#8B4513] animate-pulse" />}
+                  {msg.isStopped && <p className="text-[10px] pixel-font text-[#8B4513]/70 mt-2">⏹ 已中断 (STOPPED)</p>}
                 </div>
               )}
             </div>
           </div>
         ))}
         
-        {isSending && (
+        {isSending && messages[messages.length - 1]?.isStreaming && !messages[messages.length - 1]?.text && (
           <div className="flex justify-start">
             <div className="bg-[#f5f2e9] border-2 border-[#8B4513] rounded p-3">
               <LoaderIcon className="w-5 h-5 animate-spin text-[#8B4513]" />
@@ -93,13 +96,24 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ messages, onSendMessage,
             className="flex-1 px-4 py-2 border-2 border-[#8B4513] bg-[#f5f2e9] rounded focus:outline-none focus:border-[#DAA520] text-sm text-[#2c1810] placeholder-[#8B4513]/50 pixel-font"
             disabled={isSending}
           />
-          <button
-            type="submit"
-            disabled={!input.trim() || isSending}
-            className="px-4 py-2 bg-[#8B4513] text-[#DAA520] border-2 border-[#2c1810] rounded hover:bg-[#2c1810] disabled:opacity-50 disabled:cursor-not-allowed transition-colors rpg-btn"
-          >
-            <SendIcon className="w-5 h-5" />
-          </button>
+          {isSending ? (
+            <button
+              type="button"
+              onClick={onStop}
+              title="停止生成 (Stop)"
+              className="px-4 py-2 bg-[#2c1810] text-[#DAA520] border-2 border-[#DAA520] rounded hover:bg-[#8B4513] transition-colors rpg-btn"
+            >
+              <StopIcon className="w-5 h-5" />
+            </button>
+          ) : (
+            <button
+              type="submit"
+              disabled={!input.trim()}
+              className="px-4 py-2 bg-[#8B4513] text-[#DAA520] border-2 border-[#2c1810] rounded hover:bg-[#2c1810] disabled:opacity-50 disabled:cursor-not-allowed transition-colors rpg-btn"
+            >
+              <SendIcon className="w-5 h-5" />
+            </button>
+          )}
         </form>
       </div>
     </div>
@@ -0,0 +1,167 @@
+import React, { useState } from 'react';
+import { BibliographyEntry, CitationStatus, Reference } from '../types';
+import { analyzeCitation } from '../services/geminiService';
+import { describeServiceError } from '../services/errors';
+import { ReferenceIndex, findReference } from '../utils/references';
+import { matchBibliographyEntry } from '../utils/bibliography';
+import { LoaderIcon } from './IconComponents';
+
+interface CitationOracleProps {
+  citation: { text: string; labels: string[]; context: string }; // as detected in the text, with the labels it maps to
+  referenceIndex: ReferenceIndex | null; // null while the paper's text is still being read
+  bibliography: BibliographyEntry[]; // imported BibTeX/RIS records, preferred over the parsed fields
+  onUpdate: (label: string, patch: Pick<Reference, 'note'> | Pick<Reference, 'status'>) => void;
+  onClose: () => void;
+}
+
+const MAX_AUTHORS = 4;
+
+const STATUS_OPTIONS: { id: CitationStatus; label: string }[] = [
+  { id: 'MUST_READ', label: '必读' },
+  { id: 'NORMAL', label: '普通' },
+  { id: 'IGNORE', label: '跳过' }
+];
+
+const statusLabel = (status: CitationStatus) => STATUS_OPTIONS.find(o => o.id === status)?.label || status;
+
+const formatAuthors = (authors: string[]) =>
+  authors.length > MAX_AUTHORS ? `${authors.slice(0, MAX_AUTHORS).join(', ')} 等` : authors.join(', ');
+
+// Parsed fields overlaid with the matching imported record
+const withImported = (reference: Reference, entry?: BibliographyEntry): Reference => entry ? {
+  ...reference,
+  title: entry.title,
+  authors: entry.authors.length > 0 ? entry.authors : reference.authors,
+  venue: entry.venue || reference.venue,
+  year: entry.year || reference.year,
+  doi: entry.doi || reference.doi,
+  arxivId: entry.arxivId || reference.arxivId
+} : reference;
+
+interface ReferenceCardProps {
+  reference: Reference;
+  imported?: BibliographyEntry;
+  context: string;
+  onUpdate: CitationOracleProps['onUpdate'];
+}
+
+const ReferenceCard: React.FC<ReferenceCardProps> = ({ reference: parsed, imported, context, onUpdate }) => {
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const reference = withImported(parsed, imported);
+  const note = reference.note;
+
+  const requestNote = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      onUpdate(reference.label, { note: await analyzeCitation(reference, context, imported?.abstract) });
+    } catch (e) {
+      setError(describeServiceError(e).message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-between items-start gap-4">
+        <h4 className="font-bold text-lg text-[#2c1810] serif leading-tight">{reference.title || reference.raw}</h4>
+        {imported && (
+          <span className="shrink-0 px-2 py-1 text-[10px] border-2 font-bold pixel-font border-[#2c1810] text-[#2c1810]" title={`来自 ${imported.source}`}>文献库</span>
+        )}
+        {reference.status === 'MUST_READ' && (
+          <span className="shrink-0 px-2 py-1 text-[10px] border-2 font-bold pixel-font bg-[#8B4513] text-[#DAA520] border-[#DAA520]">必读圣经</span>
+        )}
+      </div>
+      {reference.authors.length > 0 && <p className="text-sm text-[#2c1810] serif">{formatAuthors(reference.authors)}</p>}
+      <p className="text-sm text-[#5c4033] italic serif">{[reference.venue, reference.year].filter(Boolean).join(' · ')}</p>
+      {(reference.doi || reference.arxivId) && (
+        <div className="flex gap-3 text-xs font-bold">
+          {reference.doi && <a href={`https://doi.org/${reference.doi}`} target="_blank" rel="noreferrer" className="underline text-[#8B4513]">DOI: {reference.doi}</a>}
+          {reference.arxivId && <a href={`https://arxiv.org/abs/${reference.arxivId}`} target="_blank" rel="noreferrer" className="underline text-[#8B4513]">arXiv: {reference.arxivId}</a>}
+        </div>
+      )}
+      {imported?.abstract && (
+        <div className="bg-[#f5f2e9] p-3 border-2 border-[#8B4513] text-sm text-[#2c1810] serif leading-relaxed max-h-40 overflow-y-auto custom-scrollbar">
+          <span className="font-bold">摘要：</span>{imported.abstract}
+        </div>
+      )}
+      {reference.title && (
+        <details className="text-[10px] text-[#5c4033]">
+          <summary className="cursor-pointer">原始条目</summary>
+          <p className="mt-1 serif">{reference.raw}</p>
+        </details>
+      )}
+
+      {/* Triage: MUST_READ puts the reference on the reading list */}
+      <div className="flex items-center gap-2">
+        {STATUS_OPTIONS.map(option => (
+          <button
+            key={option.id}
+            onClick={() => onUpdate(reference.label, { status: option.id })}
+            className={`flex-1 py-1 text-xs border-2 font-bold ${reference.status === option.id ? 'bg-[#2c1810] text-[#DAA520] border-[#DAA520]' : 'border-[#8B4513] text-[#8B4513]'}`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+      {note && !reference.status && (
+        <p className="text-[10px] text-[#5c4033]">小猫建议：{statusLabel(note.status)}</p>
+      )}
+
+      {note ? (
+        <div className="bg-[#f5f2e9] p-3 border-2 border-[#2c1810] text-sm text-[#2c1810] serif leading-relaxed space-y-2">
+          <p>{note.abstract}</p>
+          {note.relevance && <p className="text-[#5c4033]"><span className="font-bold">引用原因：</span>{note.relevance}</p>}
+        </div>
+      ) : (
+        <button onClick={requestNote} disabled={loading} className="px-3 py-1 rpg-btn text-xs font-bold disabled:opacity-40 flex items-center gap-2">
+          {loading && <LoaderIcon className="w-3 h-3 animate-spin" />}
+          {loading ? '小猫翻阅中...' : '小猫点评 (NOTE)'}
+        </button>
+      )}
+      {error && <p className="text-xs text-red-700">{error}</p>}
+    </div>
+  );
+};
+
+// Shows the reference-list entries a clicked citation maps to; the model is only asked for optional notes
+const CitationOracle: React.FC<CitationOracleProps> = ({ citation, referenceIndex, bibliography, onUpdate, onClose }) => {
+  const resolved = citation.labels.map(label => ({ label, reference: findReference(referenceIndex, label) }));
+
+  return (
+    <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/50 p-4 animate-in fade-in">
+      <div className="bg-[#e8e4d9] w-full max-w-md max-h-[80vh] flex flex-col border-4 border-[#2c1810] shadow-2xl p-0 relative">
+        <div className="bg-[#2c1810] text-[#DAA520] p-2 flex justify-between items-center">
+          <h3 className="pixel-font text-xs truncate">真视之眼 (THE ORACLE) · {citation.text}</h3>
+          <button onClick={onClose} className="text-[#e8e4d9]">X</button>
+        </div>
+        <div className="p-6 space-y-6 overflow-y-auto custom-scrollbar">
+          {referenceIndex === null ? (
+            <div className="text-center py-8">
+              <div className="inline-block animate-spin text-2xl mb-2">🔮</div>
+              <p className="pixel-font text-xs text-[#2c1810]">正在检索上古卷轴...</p>
+            </div>
+          ) : referenceIndex.references.length === 0 ? (
+            <p className="text-sm serif text-[#2c1810] text-center py-4">没能从这篇论文的文字层中解析出参考文献列表。</p>
+          ) : (
+            resolved.map(({ label, reference }) => reference ? (
+              <ReferenceCard
+                key={label}
+                reference={reference}
+                imported={matchBibliographyEntry(reference, bibliography)}
+                context={citation.context}
+                onUpdate={onUpdate}
+              />
+            ) : (
+              <p key={label} className="text-sm serif text-[#5c4033]">参考文献列表中没有找到「{label}」。</p>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CitationOracle;
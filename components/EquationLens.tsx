@@ -0,0 +1,91 @@
+import React from 'react';
+import katex from 'katex';
+import { EquationExplanation } from '../types';
+import { ServiceError, describeServiceError } from '../services/errors';
+
+interface EquationLensProps {
+  explanation: EquationExplanation | null;
+  isLoading: boolean;
+  error: ServiceError | null;
+  onRetry: () => void;
+  onClose: () => void;
+}
+
+const renderLatex = (latex: string, displayMode = false) =>
+  katex.renderToString(latex, { throwOnError: false, displayMode, output: 'html' });
+
+// Plain text with $...$ math rendered inline
+const MathText: React.FC<{ text: string; className?: string }> = ({ text, className }) => (
+  <span className={className}>
+    {text.split(/(\$[^$]+\$)/g).map((part, i) =>
+      /^\$[^$]+\$$/.test(part)
+        ? <span key={i} dangerouslySetInnerHTML={{ __html: renderLatex(part.slice(1, -1)) }} />
+        : <React.Fragment key={i}>{part}</React.Fragment>
+    )}
+  </span>
+);
+
+const EquationLens: React.FC<EquationLensProps> = ({ explanation, isLoading, error, onRetry, onClose }) => (
+  <div className="absolute bottom-0 left-1/2 -translate-x-1/2 w-full max-w-2xl z-50 p-4">
+    <div className="bg-[#2c1810] border-t-4 border-l-4 border-r-4 border-[#DAA520] shadow-2xl p-0 relative rounded-t-lg">
+      <div className="flex justify-between items-center p-2 border-b border-[#DAA520]/30">
+        <h3 className="text-[#DAA520] pixel-font text-xs">魔镜解析 (MAGIC LENS)</h3>
+        <button onClick={onClose} className="text-[#e8e4d9] hover:text-[#DAA520]">CLOSE</button>
+      </div>
+      <div className="p-4 min-h-[150px] max-h-[50vh] overflow-y-auto custom-scrollbar">
+        {isLoading ? (
+          <div className="text-[#e8e4d9] pixel-font text-xs animate-pulse">正在解构符文...</div>
+        ) : error ? (
+          <div className="text-[#e8e4d9] space-y-2">
+            <p className="pixel-font text-xs text-[#DAA520]">{describeServiceError(error).title}</p>
+            <p className="text-sm serif">{describeServiceError(error).message}</p>
+            <button onClick={onRetry} className="px-3 py-1 border-2 border-[#DAA520] text-[#DAA520] pixel-font text-[10px] hover:bg-[#DAA520] hover:text-[#2c1810]">
+              重新解构 (RETRY)
+            </button>
+          </div>
+        ) : explanation && (
+          <div className="space-y-4 text-[#e8e4d9] serif text-sm">
+            <div className="overflow-x-auto" dangerouslySetInnerHTML={{ __html: renderLatex(explanation.equation, true) }} />
+
+            {explanation.symbols.length > 0 && (
+              <table className="w-full text-left border-collapse">
+                <thead>
+                  <tr className="text-[10px] pixel-font text-[#DAA520] border-b border-[#DAA520]/50">
+                    <th className="py-1 pr-3 font-normal">符号</th>
+                    <th className="py-1 pr-3 font-normal">含义</th>
+                    <th className="py-1 font-normal">出处</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {explanation.symbols.map((s, i) => (
+                    <tr key={i} className="border-b border-[#DAA520]/15 align-top">
+                      <td className="py-1 pr-3 whitespace-nowrap" dangerouslySetInnerHTML={{ __html: renderLatex(s.symbol) }} />
+                      <td className="py-1 pr-3"><MathText text={s.meaning} /></td>
+                      <td className="py-1 text-xs whitespace-nowrap opacity-70">{s.definedAt || '常见用法'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+
+            {explanation.intuition && (
+              <div>
+                <h4 className="text-[10px] pixel-font text-[#DAA520] mb-1">直觉 (INTUITION)</h4>
+                <MathText text={explanation.intuition} className="whitespace-pre-line leading-relaxed" />
+              </div>
+            )}
+
+            {explanation.example && (
+              <div>
+                <h4 className="text-[10px] pixel-font text-[#DAA520] mb-1">算一算 (EXAMPLE)</h4>
+                <MathText text={explanation.example} className="whitespace-pre-line leading-relaxed" />
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  </div>
+);
+
+export default EquationLens;
@@ -0,0 +1,123 @@
+import React, { useEffect, useState } from 'react';
+import { PageTranslation } from '../types';
+import { getPageTranslations } from '../utils/storage';
+import { getPdfPageCount } from '../utils/pdfUtils';
+import { buildExport, downloadBlob, EXPORT_EXTENSIONS, ExportFormat, ExportLayout } from '../utils/exporters';
+
+interface ExportDialogProps {
+  fingerprint: string;
+  base64Pdf: string;
+  paperName: string;
+  onClose: () => void;
+  onExported: (message: string) => void;
+}
+
+const FORMAT_OPTIONS: { id: ExportFormat; label: string }[] = [
+  { id: 'markdown', label: 'Markdown' },
+  { id: 'html', label: 'HTML' },
+  { id: 'docx', label: 'Word (DOCX)' }
+];
+
+const LAYOUT_OPTIONS: { id: ExportLayout; label: string; hint: string }[] = [
+  { id: 'bilingual', label: '双语对照', hint: '原文段落后紧跟译文' },
+  { id: 'sideBySide', label: '左右分栏', hint: '每页一张两栏表格' },
+  { id: 'targetOnly', label: '仅译文', hint: '只保留译文和公式' }
+];
+
+const ExportDialog: React.FC<ExportDialogProps> = ({ fingerprint, base64Pdf, paperName, onClose, onExported }) => {
+  const [pages, setPages] = useState<Map<number, PageTranslation> | null>(null);
+  const [pageCount, setPageCount] = useState(0);
+  const [format, setFormat] = useState<ExportFormat>('markdown');
+  const [layout, setLayout] = useState<ExportLayout>('bilingual');
+  const [includeGlossary, setIncludeGlossary] = useState(true);
+
+  useEffect(() => {
+    Promise.all([getPageTranslations(fingerprint), getPdfPageCount(base64Pdf)])
+      .then(([translations, count]) => {
+        setPages(translations);
+        setPageCount(count);
+      })
+      .catch(e => console.error("Failed to load translations for export:", e));
+  }, [fingerprint, base64Pdf]);
+
+  const translatedCount = pages ? Array.from(pages.keys()).filter(p => p <= pageCount).length : 0;
+  const missingCount = pageCount - translatedCount;
+
+  const handleExport = () => {
+    if (!pages) return;
+    const title = paperName.replace(/\.pdf$/i, '');
+    const blob = buildExport({ title, pageCount, pages, format, layout, includeGlossary });
+    downloadBlob(blob, `${title}.${EXPORT_EXTENSIONS[format]}`);
+    onExported(missingCount > 0 ? `已导出，${missingCount} 页未翻译已标注` : '已导出译文');
+  };
+
+  return (
+    <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/50 p-4 animate-in fade-in">
+      <div className="bg-[#e8e4d9] w-full max-w-md border-4 border-[#2c1810] shadow-2xl p-0 relative">
+        <div className="bg-[#2c1810] text-[#DAA520] p-2 flex justify-between items-center">
+          <h3 className="pixel-font text-xs">导出译文 (EXPORT)</h3>
+          <button onClick={onClose} className="text-[#e8e4d9]">X</button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          <p className="text-xs text-[#2c1810]">
+            {pages === null ? '正在清点卷轴...' : `已翻译 ${translatedCount}/${pageCount} 页`}
+            {pages !== null && missingCount > 0 && (
+              <span className="block text-[10px] text-red-700 mt-1">未翻译的页面会在文档中标注，可先用「全卷翻译」补齐。</span>
+            )}
+          </p>
+
+          <div>
+            <h4 className="pixel-font text-xs font-bold mb-2 text-[#2c1810]">格式 (FORMAT)</h4>
+            <div className="flex gap-2">
+              {FORMAT_OPTIONS.map(option => (
+                <button
+                  key={option.id}
+                  onClick={() => setFormat(option.id)}
+                  className={`flex-1 py-1 text-xs border-2 font-bold ${format === option.id ? 'bg-[#2c1810] text-[#DAA520] border-[#DAA520]' : 'border-[#8B4513] text-[#8B4513]'}`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <h4 className="pixel-font text-xs font-bold mb-2 text-[#2c1810]">版式 (LAYOUT)</h4>
+            <div className="space-y-1">
+              {LAYOUT_OPTIONS.map(option => (
+                <button
+                  key={option.id}
+                  onClick={() => setLayout(option.id)}
+                  className={`w-full px-2 py-1 text-left text-xs border-2 ${layout === option.id ? 'bg-[#2c1810] text-[#DAA520] border-[#DAA520]' : 'border-[#8B4513] text-[#8B4513]'}`}
+                >
+                  <span className="font-bold">{option.label}</span>
+                  <span className="ml-2 opacity-70">{option.hint}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <label className="flex items-center gap-2 text-xs font-bold text-[#8B4513]">
+            <input type="checkbox" checked={includeGlossary} onChange={(e) => setIncludeGlossary(e.target.checked)} />
+            附上术语表 (Glossary)
+          </label>
+
+          {format === 'docx' && (
+            <p className="text-[10px] text-[#5c4033]">Word 中的公式以 LaTeX 源码保留。</p>
+          )}
+
+          <button
+            onClick={handleExport}
+            disabled={pages === null || translatedCount === 0}
+            className="w-full py-2 rpg-btn pixel-font text-xs disabled:opacity-40"
+          >
+            下载 (DOWNLOAD)
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportDialog;
@@ -54,9 +54,15 @@ const ScholarCatSVG = () => (
   </svg>
 );
 
-const GamifiedLoader: React.FC = () => {
-  const [progress, setProgress] = useState(0);
+interface GamifiedLoaderProps {
+  // 有真实进度时显示真实进度，否则走模拟动画
+  progress?: { value: number; label?: string };
+}
+
+const GamifiedLoader: React.FC<GamifiedLoaderProps> = ({ progress: realProgress }) => {
+  const [simulatedProgress, setProgress] = useState(0);
   const [messageIndex, setMessageIndex] = useState(0);
+  const progress = realProgress ? realProgress.value : simulatedProgress;
 
   useEffect(() => {
     // 进度条逻辑保持不变
@@ -138,7 +144,7 @@ const GamifiedLoader: React.FC = () => {
       {/* Loading Text */}
       <div className="h-8 flex items-center justify-center">
         <p className="pixel-font text-[10px] md:text-xs text-center font-bold text-[#5d4037] animate-pulse px-4 leading-relaxed">
-          {LOADING_MESSAGES[messageIndex]}
+          {realProgress?.label || LOADING_MESSAGES[messageIndex]}
         </p>
       </div>
       
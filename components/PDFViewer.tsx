@@ -1,6 +1,7 @@
 import React, { useState, useEffect, useRef, forwardRef } from 'react';
 import { Document, Page, pdfjs } from 'react-pdf';
-import { ChevronLeftIcon, ChevronRightIcon, ZoomInIcon, ZoomOutIcon, LoaderIcon, InfoIcon, StarIcon } from './IconComponents';
+import { BlockBox } from '../types';
+import { ChevronLeftIcon, ChevronRightIcon, ZoomInIcon, ZoomOutIcon, LoaderIcon, InfoIcon, StarIcon, LanguagesIcon } from './IconComponents';
 
 // Configure PDF.js worker from CDN for stability
 pdfjs.GlobalWorkerOptions.workerSrc = `https://esm.sh/pdfjs-dist@4.4.168/build/pdf.worker.min.mjs`;
@@ -11,8 +12,10 @@ interface PDFViewerProps {
   onPageChange: (page: number) => void;
   onPageRendered: (pageCanvas: HTMLCanvasElement, pageNum: number) => void;
   highlightText?: string | null;
+  highlightBox?: BlockBox | null; // exact block region; the text search is only a fallback
   triggerCapture?: number;
-  onTextSelected?: (text: string, action: 'explain' | 'save') => void;
+  onTextSelected?: (text: string, action: 'explain' | 'save' | 'translate') => void;
+  onRegionClick?: (x: number, y: number) => void; // normalized page coordinates
 }
 
 interface HighlightRect {
@@ -28,8 +31,10 @@ const PDFViewer = forwardRef<HTMLDivElement, PDFViewerProps>(({
   onPageChange, 
   onPageRendered,
   highlightText,
+  highlightBox,
   triggerCapture,
-  onTextSelected
+  onTextSelected,
+  onRegionClick
 }, ref) => {
   const [numPages, setNumPages] = useState<number | null>(null);
   const [scale, setScale] = useState(1.2); 
@@ -78,8 +83,38 @@ const PDFViewer = forwardRef<HTMLDivElement, PDFViewerProps>(({
   }, [pageNumber, scale]);
 
 
-  // --- SMART BBOX HIGHLIGHTING ---
+  // --- BLOCK REGION HIGHLIGHTING ---
   useEffect(() => {
+    if (!highlightBox) return;
+
+    const placeHighlight = () => {
+      const container = pageContainerRef.current;
+      const pageElement = container?.querySelector('.react-pdf__Page');
+      if (!container || !pageElement) return;
+      const pageRect = pageElement.getBoundingClientRect();
+      const rect: HighlightRect = {
+        left: highlightBox.x * pageRect.width,
+        top: highlightBox.y * pageRect.height,
+        width: highlightBox.width * pageRect.width,
+        height: highlightBox.height * pageRect.height
+      };
+      setHighlights([rect]);
+
+      // Only scroll when the block is out of view, so clicking the page does not jump
+      const containerRect = container.getBoundingClientRect();
+      const top = pageRect.top + rect.top;
+      if (top < containerRect.top || top + rect.height > containerRect.bottom) {
+        container.scrollBy({ top: top + rect.height / 2 - (containerRect.top + containerRect.height / 2), behavior: 'smooth' });
+      }
+    };
+
+    const timer = setTimeout(placeHighlight, 50);
+    return () => clearTimeout(timer);
+  }, [highlightBox, textLayerReady, pageNumber, scale]);
+
+  // --- SMART BBOX HIGHLIGHTING (text search fallback for blocks without a region) ---
+  useEffect(() => {
+    if (highlightBox) return;
     // Basic Guard
     if (!highlightText || highlightText.length < 5 || !textLayerReady || !pageContainerRef.current) {
       setHighlights([]);
@@ -201,7 +236,7 @@ const PDFViewer = forwardRef<HTMLDivElement, PDFViewerProps>(({
     const timer = setTimeout(calculateHighlights, 50);
     return () => clearTimeout(timer);
 
-  }, [highlightText, textLayerReady, pageNumber, scale]);
+  }, [highlightText, highlightBox, textLayerReady, pageNumber, scale]);
 
 
   // --- LINKS & INTERACTION ---
@@ -225,7 +260,16 @@ const PDFViewer = forwardRef<HTMLDivElement, PDFViewerProps>(({
         });
         setTimeout(() => setInternalLinkTooltip(null), 2500);
       }
+      return;
     }
+
+    // Plain click (not the end of a text selection): find the translated block under it
+    const selection = window.getSelection();
+    if (!onRegionClick || (selection && !selection.isCollapsed)) return;
+    const pageElement = target.closest('.react-pdf__Page');
+    if (!pageElement) return;
+    const pageRect = pageElement.getBoundingClientRect();
+    onRegionClick((e.clientX - pageRect.left) / pageRect.width, (e.clientY - pageRect.top) / pageRect.height);
   };
 
   // --- MENU HANDLER ---
@@ -351,6 +395,12 @@ const PDFViewer = forwardRef<HTMLDivElement, PDFViewerProps>(({
                 >
                   <InfoIcon className="w-3 h-3" /> 小猫解释
                 </button>
+                <button 
+                  onClick={() => onTextSelected?.(selectionMenu.text, 'translate')}
+                  className="px-3 py-1.5 bg-[#8B4513] hover:bg-[#DAA520] text-[#e8e4d9] hover:text-[#2c1810] text-xs font-bold rounded flex items-center gap-1 pixel-font transition-colors"
+                >
+                  <LanguagesIcon className="w-3 h-3" /> 段落翻译
+                </button>
                 <button 
                   onClick={() => onTextSelected?.(selectionMenu.text, 'save')}
                   className="px-3 py-1.5 bg-[#8B4513] hover:bg-[#DAA520] text-[#e8e4d9] hover:text-[#2c1810] text-xs font-bold rounded flex items-center gap-1 pixel-font transition-colors"
@@ -0,0 +1,133 @@
+import React, { useState } from 'react';
+import {
+  PERSONA_PRESETS, PROMPT_TEMPLATES, PersonaId, PromptTemplateId,
+  getPersona, setPersona, getTemplate, saveTemplateOverride, resetTemplate, resetAllTemplates
+} from '../services/promptTemplates';
+
+interface PromptSettingsProps {
+  onClose: () => void;
+  onSaved?: (message: string) => void;
+}
+
+const PromptSettings: React.FC<PromptSettingsProps> = ({ onClose, onSaved }) => {
+  const [personaId, setPersonaId] = useState<PersonaId>(() => getPersona().id);
+  const [selectedId, setSelectedId] = useState<PromptTemplateId>(PROMPT_TEMPLATES[0].id);
+  const [draft, setDraft] = useState(() => getTemplate(PROMPT_TEMPLATES[0].id).template);
+  // Bumped after saves/resets so override badges re-read the store
+  const [, setRevision] = useState(0);
+
+  const selected = PROMPT_TEMPLATES.find(t => t.id === selectedId)!;
+  const current = getTemplate(selectedId);
+  const isDirty = draft !== current.template;
+
+  const selectTemplate = (id: PromptTemplateId) => {
+    if (isDirty && !window.confirm('当前模板有未保存的修改，确定切换吗？')) return;
+    setSelectedId(id);
+    setDraft(getTemplate(id).template);
+  };
+
+  const handlePersona = (id: PersonaId) => {
+    setPersona(id);
+    setPersonaId(id);
+    onSaved?.(`人设已切换为 ${PERSONA_PRESETS.find(p => p.id === id)?.label}`);
+  };
+
+  const handleSave = () => {
+    saveTemplateOverride(selectedId, draft);
+    setRevision(r => r + 1);
+    onSaved?.('咒语已保存');
+  };
+
+  const handleReset = () => {
+    resetTemplate(selectedId);
+    setDraft(getTemplate(selectedId).template);
+    setRevision(r => r + 1);
+  };
+
+  const handleResetAll = () => {
+    if (!window.confirm('确定把所有模板和人设恢复默认吗？')) return;
+    resetAllTemplates();
+    setPersonaId(getPersona().id);
+    setDraft(getTemplate(selectedId).template);
+    setRevision(r => r + 1);
+  };
+
+  return (
+    <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/50 p-4 animate-in fade-in">
+      <div className="bg-[#e8e4d9] w-full max-w-3xl border-4 border-[#2c1810] shadow-2xl p-0 relative max-h-full flex flex-col">
+        <div className="bg-[#2c1810] text-[#DAA520] p-2 flex justify-between items-center">
+          <h3 className="pixel-font text-xs">咒语书 (PROMPTS)</h3>
+          <button onClick={onClose} className="text-[#e8e4d9]">X</button>
+        </div>
+
+        <div className="p-4 space-y-4 overflow-y-auto custom-scrollbar">
+          {/* Persona presets */}
+          <div>
+            <h4 className="pixel-font text-xs font-bold mb-2 text-[#2c1810]">人设 (PERSONA)</h4>
+            <div className="flex gap-2">
+              {PERSONA_PRESETS.map(preset => (
+                <button
+                  key={preset.id}
+                  onClick={() => handlePersona(preset.id)}
+                  className={`flex-1 py-1 text-xs border-2 font-bold ${personaId === preset.id ? 'bg-[#2c1810] text-[#DAA520] border-[#DAA520]' : 'border-[#8B4513] text-[#8B4513]'}`}
+                >
+                  {preset.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Template editor */}
+          <div className="flex gap-4 min-h-[320px]">
+            <ul className="w-48 shrink-0 space-y-1">
+              {PROMPT_TEMPLATES.map(t => {
+                const state = getTemplate(t.id);
+                return (
+                  <li key={t.id}>
+                    <button
+                      onClick={() => selectTemplate(t.id)}
+                      className={`w-full text-left px-2 py-1 text-xs border-2 ${selectedId === t.id ? 'bg-[#8B4513] text-[#e8e4d9] border-[#2c1810]' : 'border-transparent text-[#2c1810] hover:border-[#8B4513]'}`}
+                    >
+                      {t.label}
+                      {state.isOverridden && <span className="ml-1 text-[#DAA520]">✎</span>}
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+
+            <div className="flex-1 flex flex-col gap-2">
+              <div className="flex flex-wrap gap-1 items-center text-[10px] text-[#5c4033]">
+                <span className="font-bold">v{selected.version}</span>
+                {current.isOverridden && <span className="px-1 border border-[#8B4513]">已自定义</span>}
+                {current.isOutdated && <span className="px-1 border border-red-700 text-red-700">默认模板已更新</span>}
+                {selected.variables.map(v => (
+                  <code key={v} className="px-1 bg-[#f5f2e9] border border-[#8B4513]/30">{`{{${v}}}`}</code>
+                ))}
+              </div>
+              <textarea
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                spellCheck={false}
+                className="flex-1 min-h-[260px] w-full p-2 border-2 border-[#8B4513] bg-[#f5f2e9] text-[#2c1810] font-mono text-xs resize-none focus:outline-none"
+              />
+              <div className="flex gap-2">
+                <button onClick={handleSave} disabled={!isDirty} className="px-4 py-1 rpg-btn text-xs font-bold disabled:opacity-50">
+                  保存 (SAVE)
+                </button>
+                <button onClick={handleReset} disabled={!current.isOverridden} className="px-4 py-1 text-xs border-2 border-[#8B4513] text-[#8B4513] font-bold disabled:opacity-40">
+                  恢复默认 (RESET)
+                </button>
+                <button onClick={handleResetAll} className="ml-auto px-4 py-1 text-xs border-2 border-[#8B4513] text-[#8B4513] font-bold">
+                  全部恢复默认
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PromptSettings;
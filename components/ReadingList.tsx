@@ -0,0 +1,139 @@
+import React, { useEffect, useState } from 'react';
+import { Reference } from '../types';
+import { getPaperReferenceRecords, PaperReferenceRecord, updateReferenceIndex } from '../utils/storage';
+import { BIBLIOGRAPHY_EXTENSIONS, BibliographyFormat, buildBibliography, isSameTitle, referenceKey } from '../utils/bibliography';
+import { downloadBlob } from '../utils/exporters';
+
+interface ReadingListProps {
+  onClose: () => void;
+  onChanged: (fingerprints: string[]) => void; // papers whose reference statuses were changed here
+  onExported?: (message: string) => void;
+}
+
+interface ReadingListEntry {
+  key: string;
+  reference: Reference;
+  citedBy: { fingerprint: string; name: string; label: string }[];
+  inLibrary?: string; // name of the library paper that is this reference
+}
+
+const paperTitle = (record: PaperReferenceRecord) => record.title || record.name.replace(/\.pdf$/i, '');
+
+// MUST_READ references of every paper, merged when several papers cite the same work
+const collectReadingList = (records: PaperReferenceRecord[]): ReadingListEntry[] => {
+  const entries = new Map<string, ReadingListEntry>();
+  for (const record of records) {
+    for (const reference of record.references?.references ?? []) {
+      if (reference.status !== 'MUST_READ') continue;
+      const key = referenceKey(reference);
+      const citing = { fingerprint: record.fingerprint, name: paperTitle(record), label: reference.label };
+      const existing = entries.get(key);
+      if (existing) {
+        existing.citedBy.push(citing);
+        continue;
+      }
+      const owned = records.find(r => isSameTitle(reference.title, r.title || '') || isSameTitle(reference.title, r.name.replace(/\.pdf$/i, '')));
+      entries.set(key, { key, reference, citedBy: [citing], inLibrary: owned && paperTitle(owned) });
+    }
+  }
+  return Array.from(entries.values());
+};
+
+const ReadingList: React.FC<ReadingListProps> = ({ onClose, onChanged, onExported }) => {
+  const [records, setRecords] = useState<PaperReferenceRecord[] | null>(null);
+  const [query, setQuery] = useState('');
+
+  const reload = () => getPaperReferenceRecords().then(setRecords).catch(e => console.error("Failed to load reading list:", e));
+
+  useEffect(() => { reload(); }, []);
+
+  const entries = records ? collectReadingList(records) : [];
+  const q = query.trim().toLowerCase();
+  const visible = q
+    ? entries.filter(e => [e.reference.title, e.reference.venue, ...e.reference.authors].some(s => s.toLowerCase().includes(q)))
+    : entries;
+
+  // Taking a work off the list resets it to NORMAL in every paper that cites it
+  const handleRemove = async (entry: ReadingListEntry) => {
+    const fingerprints = Array.from(new Set(entry.citedBy.map(c => c.fingerprint)));
+    for (const fingerprint of fingerprints) {
+      await updateReferenceIndex(fingerprint, index => ({
+        ...index,
+        references: index.references.map(r =>
+          r.status === 'MUST_READ' && referenceKey(r) === entry.key ? { ...r, status: 'NORMAL' } : r
+        )
+      }));
+    }
+    onChanged(fingerprints);
+    await reload();
+  };
+
+  const handleExport = (format: BibliographyFormat) => {
+    downloadBlob(buildBibliography(visible.map(e => e.reference), format), `reading-list.${BIBLIOGRAPHY_EXTENSIONS[format]}`);
+    onExported?.(`已导出 ${visible.length} 篇文献`);
+  };
+
+  return (
+    <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/50 p-4 animate-in fade-in">
+      <div className="bg-[#e8e4d9] w-full max-w-2xl border-4 border-[#2c1810] shadow-2xl p-0 relative max-h-full flex flex-col">
+        <div className="bg-[#2c1810] text-[#DAA520] p-2 flex justify-between items-center">
+          <h3 className="pixel-font text-xs">必读书单 (READING LIST)</h3>
+          <button onClick={onClose} className="text-[#e8e4d9]">X</button>
+        </div>
+
+        <div className="p-4 flex items-center gap-2 border-b-2 border-[#8B4513]/30">
+          <input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="搜索标题、作者或期刊..."
+            className="flex-1 px-2 py-1 text-xs border-2 border-[#8B4513] bg-[#f5f2e9]"
+          />
+          <button onClick={() => handleExport('bibtex')} disabled={visible.length === 0} className="px-3 py-1 rpg-btn text-xs font-bold disabled:opacity-40">
+            BibTeX
+          </button>
+          <button onClick={() => handleExport('ris')} disabled={visible.length === 0} className="px-3 py-1 rpg-btn text-xs font-bold disabled:opacity-40">
+            RIS
+          </button>
+        </div>
+
+        <div className="p-4 space-y-2 overflow-y-auto custom-scrollbar">
+          {records === null ? (
+            <p className="text-xs text-center opacity-60 py-4">正在清点书架...</p>
+          ) : visible.length === 0 ? (
+            <p className="text-xs text-center opacity-60 py-4">
+              {entries.length === 0 ? '还没有必读文献。在真视之眼中把引用标为「必读」，它就会出现在这里。' : '没有匹配的文献'}
+            </p>
+          ) : (
+            visible.map(entry => (
+              <div key={entry.key} className="group p-2 border border-[#8B4513]/40 bg-[#f5f2e9] text-[#2c1810]">
+                <div className="flex items-start gap-2">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-bold serif leading-tight">{entry.reference.title || entry.reference.raw}</p>
+                    <p className="text-xs text-[#5c4033] serif">
+                      {[entry.reference.authors.slice(0, 3).join(', '), entry.reference.venue, entry.reference.year].filter(Boolean).join(' · ')}
+                    </p>
+                  </div>
+                  {entry.inLibrary && (
+                    <span className="shrink-0 px-1 text-[10px] border border-[#2c1810] font-bold" title={entry.inLibrary}>已在书库</span>
+                  )}
+                  <button
+                    onClick={() => handleRemove(entry)}
+                    className="text-[10px] text-red-700 opacity-0 group-hover:opacity-100"
+                    title="移出书单"
+                  >
+                    X
+                  </button>
+                </div>
+                <p className="text-[10px] opacity-60 mt-1">
+                  引用于：{entry.citedBy.map(c => `${c.name} [${c.label}]`).join('；')}
+                </p>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReadingList;
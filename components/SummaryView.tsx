@@ -1,29 +1,43 @@
 import React from 'react';
-import { PaperSummary } from '../types';
+import { PaperSummary, SummaryProgress } from '../types';
+import { ServiceError, describeServiceError } from '../services/errors';
 import GamifiedLoader from './GamifiedLoader';
 import { FlameIcon, FlaskIcon, SparklesIcon, TrophyIcon, SwordIcon } from './IconComponents';
 
 interface SummaryViewProps {
   summary: PaperSummary | null;
   isLoading: boolean;
-  error: string | null;
+  progress?: SummaryProgress | null;
+  error: ServiceError | null;
+  onRetry?: () => void;
 }
 
-const SummaryView: React.FC<SummaryViewProps> = ({ summary, isLoading, error }) => {
+const SummaryView: React.FC<SummaryViewProps> = ({ summary, isLoading, progress, error, onRetry }) => {
   if (isLoading) {
+    // Long papers report real progress: map steps fill 90%, the merge step the rest
+    const loaderProgress = progress && (progress.stage === 'map'
+      ? { value: (progress.done / Math.max(progress.total, 1)) * 90, label: `已研读 ${progress.done}/${progress.total} 卷... (Parts read ${progress.done}/${progress.total})` }
+      : { value: 90 + progress.done * 10, label: '正在汇总鉴定报告... (Merging notes...)' });
     return (
       <div className="h-full bg-[#f4ecd8] border-l-4 border-[#8B4513] relative overflow-hidden">
-         <GamifiedLoader />
+         <GamifiedLoader progress={loaderProgress || undefined} />
       </div>
     );
   }
 
   if (error) {
+    const { title, message } = describeServiceError(error);
     return (
       <div className="p-6 bg-[#f4ecd8] h-full flex items-center justify-center">
         <div className="bg-red-100 text-[#8B4513] border-4 border-[#8B4513] p-6 rounded text-center">
           <h3 className="font-bold pixel-font text-lg mb-2">鉴定失败 (APPRAISAL FAILED)</h3>
-          <p className="serif">{error}</p>
+          <p className="pixel-font text-[10px] mb-2">{title}</p>
+          <p className="serif">{message}</p>
+          {onRetry && (
+            <button onClick={onRetry} className="mt-4 px-4 py-2 rpg-btn text-xs font-bold">
+              重新鉴定 (Retry)
+            </button>
+          )}
         </div>
       </div>
     );
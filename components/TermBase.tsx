@@ -0,0 +1,249 @@
+import React, { useEffect, useState } from 'react';
+import { TermEntry } from '../types';
+import {
+  GENERAL_FIELD, getActiveField, setActiveField, listTerms, updateTerm, removeTerms, mergeTerms, languagePairKey
+} from '../services/terminology';
+
+interface TermBaseProps {
+  onClose: () => void;
+  onSaved?: (message: string) => void;
+}
+
+type StatusFilter = 'all' | 'candidate' | 'approved';
+
+const TermBase: React.FC<TermBaseProps> = ({ onClose, onSaved }) => {
+  const [terms, setTerms] = useState<TermEntry[]>([]);
+  const [activeField, setActiveFieldState] = useState(getActiveField);
+  const [fieldFilter, setFieldFilter] = useState(getActiveField);
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
+  const [pairFilter, setPairFilter] = useState<string>('all'); // language pair key, e.g. "en-zh"
+  const [query, setQuery] = useState('');
+  // Checked entries for merging, in the order they were checked; the first one is kept
+  const [selected, setSelected] = useState<string[]>([]);
+
+  const reload = () => listTerms().then(setTerms).catch(e => console.error("Failed to load terms:", e));
+
+  useEffect(() => { reload(); }, []);
+
+  const fields = Array.from(new Set([GENERAL_FIELD, activeField, ...terms.map(t => t.field)]));
+  const pairs = Array.from(new Set(terms.map(t => languagePairKey(t.languages))));
+  const q = query.trim().toLowerCase();
+  const visible = terms.filter(t =>
+    t.field === fieldFilter
+    && (pairFilter === 'all' || languagePairKey(t.languages) === pairFilter)
+    && (statusFilter === 'all' || t.status === statusFilter)
+    && (!q || [t.term, t.translation, ...t.aliases].some(s => s.toLowerCase().includes(q)))
+  );
+
+  const replaceTerm = (next: TermEntry) => setTerms(prev => prev.map(t => t.id === next.id ? next : t));
+
+  // Writes can fail (e.g. storage quota); report it like a success instead of failing silently
+  const runWrite = async (failure: string, write: () => Promise<void>) => {
+    try {
+      await write();
+    } catch (e) {
+      console.error(`${failure}:`, e);
+      onSaved?.(failure);
+    }
+  };
+
+  const handleUpdate = (entry: TermEntry, patch: Partial<Pick<TermEntry, 'translation' | 'definition' | 'status'>>) =>
+    runWrite('术语保存失败', async () => {
+      const next = await updateTerm(entry, patch);
+      if (next) replaceTerm(next);
+      else await reload(); // deleted meanwhile
+    });
+
+  const handleActiveField = (field: string) => {
+    const value = field.trim() || GENERAL_FIELD;
+    setActiveField(value);
+    setActiveFieldState(value);
+    setFieldFilter(value);
+    setSelected([]);
+  };
+
+  const toggleSelected = (id: string) =>
+    setSelected(prev => prev.includes(id) ? prev.filter(s => s !== id) : [...prev, id]);
+
+  const handleMerge = async () => {
+    const chosen = selected.map(id => terms.find(t => t.id === id)).filter((t): t is TermEntry => !!t);
+    if (chosen.length < 2) return;
+    const [target, ...sources] = chosen;
+    if (!window.confirm(`把 ${sources.map(s => `"${s.term}"`).join('、')} 合并到 "${target.term}" 吗？`)) return;
+    await runWrite('术语合并失败', async () => {
+      await mergeTerms(target, sources);
+      setSelected([]);
+      await reload();
+      onSaved?.('术语已合并');
+    });
+  };
+
+  const handleDelete = async () => {
+    if (!window.confirm(`确定删除选中的 ${selected.length} 个术语吗？`)) return;
+    await runWrite('术语删除失败', async () => {
+      await removeTerms(selected);
+      setSelected([]);
+      await reload();
+    });
+  };
+
+  const handleApproveVisible = async () => {
+    const pending = visible.filter(t => t.status === 'candidate' && t.translation);
+    await runWrite('术语审核失败', async () => {
+      for (const entry of pending) await updateTerm(entry, { status: 'approved' });
+      onSaved?.(`已审核 ${pending.length} 个术语`);
+    });
+    await reload(); // also after a partial failure
+  };
+
+  return (
+    <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/50 p-4 animate-in fade-in">
+      <div className="bg-[#e8e4d9] w-full max-w-4xl border-4 border-[#2c1810] shadow-2xl p-0 relative max-h-full flex flex-col">
+        <div className="bg-[#2c1810] text-[#DAA520] p-2 flex justify-between items-center">
+          <h3 className="pixel-font text-xs">术语库 (TERMS)</h3>
+          <button onClick={onClose} className="text-[#e8e4d9]">X</button>
+        </div>
+
+        <div className="p-4 space-y-3 overflow-y-auto custom-scrollbar">
+          {/* Active field: new terms are collected into it and its approved terms are enforced */}
+          <div className="flex flex-wrap gap-2 items-center text-xs">
+            <label className="font-bold text-[#8B4513]">
+              当前领域 (FIELD)
+              <input
+                list="term-fields"
+                defaultValue={activeField}
+                onBlur={(e) => handleActiveField(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Enter') handleActiveField(e.currentTarget.value); }}
+                className="ml-2 w-32 px-2 py-1 border-2 border-[#8B4513] bg-[#f5f2e9] text-[#2c1810] font-normal"
+              />
+              <datalist id="term-fields">
+                {fields.map(f => <option key={f} value={f} />)}
+              </datalist>
+            </label>
+            <span className="text-[10px] text-[#5c4033]">翻译时使用「{activeField}」和「{GENERAL_FIELD}」中已审核的译法</span>
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            {fields.map(f => (
+              <button
+                key={f}
+                onClick={() => { setFieldFilter(f); setSelected([]); }}
+                className={`px-2 py-1 text-xs border-2 font-bold ${fieldFilter === f ? 'bg-[#2c1810] text-[#DAA520] border-[#DAA520]' : 'border-[#8B4513] text-[#8B4513]'}`}
+              >
+                {f}
+              </button>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap gap-2 items-center">
+            {(['all', 'candidate', 'approved'] as StatusFilter[]).map(s => (
+              <button
+                key={s}
+                onClick={() => setStatusFilter(s)}
+                className={`px-2 py-1 text-[10px] border-2 font-bold ${statusFilter === s ? 'bg-[#8B4513] text-[#e8e4d9] border-[#2c1810]' : 'border-[#8B4513] text-[#8B4513]'}`}
+              >
+                {s === 'all' ? '全部' : s === 'candidate' ? '待审核' : '已审核'}
+              </button>
+            ))}
+            {pairs.length > 1 && (
+              <select
+                value={pairFilter}
+                onChange={(e) => { setPairFilter(e.target.value); setSelected([]); }}
+                className="px-1 py-1 text-[10px] border-2 border-[#8B4513] bg-[#f5f2e9] text-[#8B4513] font-bold"
+              >
+                <option value="all">全部语言</option>
+                {pairs.map(p => <option key={p} value={p}>{p.toUpperCase().replace('-', ' → ')}</option>)}
+              </select>
+            )}
+            <input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="搜索术语..."
+              className="flex-1 min-w-[120px] px-2 py-1 text-xs border-2 border-[#8B4513] bg-[#f5f2e9] text-[#2c1810]"
+            />
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            <button onClick={handleApproveVisible} className="px-3 py-1 rpg-btn text-[10px] font-bold">
+              审核列表中有译名的候选
+            </button>
+            <button
+              onClick={handleMerge}
+              disabled={selected.length < 2}
+              title="合并到最先勾选的词条 (只合并语言相同的词条)"
+              className="px-3 py-1 text-[10px] border-2 border-[#8B4513] text-[#8B4513] font-bold disabled:opacity-40"
+            >
+              合并 (MERGE) {selected.length > 1 && `${selected.length}`}
+            </button>
+            <button
+              onClick={handleDelete}
+              disabled={selected.length === 0}
+              className="px-3 py-1 text-[10px] border-2 border-red-700 text-red-700 font-bold disabled:opacity-40"
+            >
+              删除 (DELETE)
+            </button>
+          </div>
+
+          <table className="w-full text-xs text-[#2c1810]">
+            <thead>
+              <tr className="border-b-2 border-[#8B4513] text-left pixel-font text-[10px] text-[#8B4513]">
+                <th className="py-1 w-6"></th>
+                <th className="py-1">术语</th>
+                <th className="py-1">译名</th>
+                <th className="py-1">释义</th>
+                <th className="py-1 text-right">页数</th>
+                <th className="py-1 text-right">状态</th>
+              </tr>
+            </thead>
+            <tbody>
+              {visible.map(entry => (
+                <tr key={entry.id} className="border-b border-[#8B4513]/20 align-top">
+                  <td className="py-1">
+                    <input type="checkbox" checked={selected.includes(entry.id)} onChange={() => toggleSelected(entry.id)} />
+                  </td>
+                  <td className="py-1 pr-2">
+                    <span className="font-bold">{entry.term}</span>
+                    <span className="ml-1 text-[9px] opacity-50">{entry.languages.source.toUpperCase()}→{entry.languages.target.toUpperCase()}</span>
+                    {entry.aliases.length > 0 && <span className="block text-[10px] opacity-60">{entry.aliases.join(' / ')}</span>}
+                  </td>
+                  <td className="py-1 pr-2">
+                    <input
+                      key={`${entry.id}-${entry.translation}`}
+                      defaultValue={entry.translation}
+                      onBlur={(e) => { if (e.target.value !== entry.translation) handleUpdate(entry, { translation: e.target.value.trim() }); }}
+                      className="w-28 px-1 border border-[#8B4513]/40 bg-[#f5f2e9]"
+                    />
+                  </td>
+                  <td className="py-1 pr-2">
+                    <input
+                      key={`${entry.id}-${entry.definition}`}
+                      defaultValue={entry.definition}
+                      onBlur={(e) => { if (e.target.value !== entry.definition) handleUpdate(entry, { definition: e.target.value.trim() }); }}
+                      className="w-full px-1 border border-[#8B4513]/40 bg-[#f5f2e9]"
+                    />
+                  </td>
+                  <td className="py-1 text-right" title={`${entry.fingerprints.length} 篇论文`}>{entry.count}</td>
+                  <td className="py-1 text-right">
+                    <button
+                      onClick={() => handleUpdate(entry, { status: entry.status === 'approved' ? 'candidate' : 'approved' })}
+                      disabled={entry.status === 'candidate' && !entry.translation}
+                      title={entry.translation ? '' : '先填写译名'}
+                      className={`px-1 text-[10px] border font-bold disabled:opacity-40 ${entry.status === 'approved' ? 'bg-[#8B4513] text-[#e8e4d9] border-[#2c1810]' : 'border-[#8B4513] text-[#8B4513]'}`}
+                    >
+                      {entry.status === 'approved' ? '已审核' : '审核'}
+                    </button>
+                  </td>
+                </tr>
+              ))}
+              {visible.length === 0 && (
+                <tr><td colSpan={6} className="py-3 text-center text-[#5c4033] opacity-60">暂无术语，翻译页面后会自动收集</td></tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TermBase;
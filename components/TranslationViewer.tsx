@@ -1,22 +1,43 @@
 import React, { forwardRef, useState, useEffect, useRef } from 'react';
-import { PageTranslation, ContentBlock, GlossaryTerm, AppearanceSettings } from '../types';
+import { PageTranslation, ContentBlock, GlossaryTerm, AppearanceSettings, BlockBox } from '../types';
 import GamifiedLoader from './GamifiedLoader';
+import { ServiceError, describeServiceError } from '../services/errors';
 import ReactMarkdown from 'react-markdown';
 import katex from 'katex';
+import { renderPageRegion } from '../utils/pdfUtils';
+import { tableHeader, tableToCsv } from '../utils/tables';
+import { detectCitations, DetectedCitation } from '../utils/citations';
+import { ReferenceIndex } from '../utils/references';
+import { applyBlockEdits, BlockEdits, editBlock, getBlockEdit, isEditedBlock, restoreRevision, toggleBlockLock } from '../utils/blockEdits';
 
 interface TranslationViewerProps {
   translation: PageTranslation | undefined;
   isLoading: boolean;
-  onHoverBlock: (text: string | null) => void;
+  error?: ServiceError | null;
+  onHoverBlock: (block: ContentBlock | null) => void;
   onRetry: () => void;
-  onCitationClick: (id: string) => void;
-  onEquationClick: (eq: string) => void;
+  onCitationClick: (citation: DetectedCitation, context: string) => void; // context: source text of the citing block
+  onEquationClick: (eq: string, surrounding: string) => void; // surrounding: source text of the neighbouring blocks
+  onEditsChange: (edits: BlockEdits) => void;
+  focusBlock?: { index: number } | null; // scroll to this block; a new object scrolls again
+  pdfBase64?: string; // for cropping figures out of the page
+  references?: ReferenceIndex | null; // parsed reference list that citations are matched against
   appearance: AppearanceSettings;
 }
 
+const SURROUNDING_BLOCKS = 2;
+
+// Text of the blocks around an equation, which usually introduces its symbols
+const surroundingText = (blocks: ContentBlock[], index: number) =>
+  blocks
+    .slice(Math.max(0, index - SURROUNDING_BLOCKS), index + SURROUNDING_BLOCKS + 1)
+    .filter((b, i, near) => near[i] !== blocks[index] && (b.type === 'paragraph' || b.type === 'heading'))
+    .map(b => b.source)
+    .join('\n\n');
+
 // --- LAZY BLOCK COMPONENT ---
 // Only renders the heavy content when within viewport
-const LazyBlock = ({ children, heightHint = 100 }: { children: React.ReactNode, heightHint?: number }) => {
+const LazyBlock = ({ children, heightHint = 100, index }: { children: React.ReactNode, heightHint?: number, index?: number }) => {
   const [isVisible, setIsVisible] = useState(false);
   const containerRef = useRef<HTMLDivElement>(null);
 
@@ -39,22 +60,74 @@ const LazyBlock = ({ children, heightHint = 100 }: { children: React.ReactNode,
   }, []);
 
   return (
-    <div ref={containerRef} style={{ minHeight: isVisible ? 'auto' : heightHint }}>
+    <div ref={containerRef} data-block-index={index} style={{ minHeight: isVisible ? 'auto' : heightHint }}>
       {isVisible ? children : <div className="animate-pulse bg-gray-200/20 rounded" style={{height: heightHint}} />}
     </div>
   );
 };
 
+// --- FIGURE CROP ---
+// Renders the figure's region of the page, so it can be read next to its translated caption
+const FigureImage = ({ pdfBase64, pageNumber, bbox, alt }: { pdfBase64: string, pageNumber: number, bbox: BlockBox, alt: string }) => {
+  const [src, setSrc] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setSrc(null);
+    setFailed(false);
+    renderPageRegion(pdfBase64, pageNumber, bbox)
+      .then(url => { if (!cancelled) setSrc(url); })
+      .catch(e => {
+        console.warn("Figure crop failed:", e);
+        if (!cancelled) setFailed(true);
+      });
+    return () => { cancelled = true; };
+  }, [pdfBase64, pageNumber, bbox.x, bbox.y, bbox.width, bbox.height]);
+
+  if (failed) return null;
+  if (!src) return <div className="animate-pulse bg-gray-200/20 rounded mb-2" style={{ height: 120 }} />;
+  return <img src={src} alt={alt} className="mx-auto mb-2 max-w-full bg-white border border-black/10" />;
+};
+
 
 const TranslationViewer = forwardRef<HTMLDivElement, TranslationViewerProps>(({ 
   translation, 
   isLoading, 
+  error,
   onHoverBlock, 
   onRetry,
   onCitationClick,
   onEquationClick,
+  onEditsChange,
+  focusBlock,
+  pdfBase64,
+  references = null,
   appearance
 }, ref) => {
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const [draft, setDraft] = useState('');
+  const [historyIndex, setHistoryIndex] = useState<number | null>(null);
+  const [flashIndex, setFlashIndex] = useState<number | null>(null);
+  const [copiedIndex, setCopiedIndex] = useState<number | null>(null);
+  const containerRef = useRef<HTMLDivElement | null>(null);
+
+  // Clicking a region of the PDF brings the matching block into view and flashes it.
+  // The lookup targets the lazy wrapper, which exists even before the block is rendered.
+  useEffect(() => {
+    if (!focusBlock) return;
+    const element = containerRef.current?.querySelector(`[data-block-index="${focusBlock.index}"]`);
+    element?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    setFlashIndex(focusBlock.index);
+    const timer = setTimeout(() => setFlashIndex(null), 1500);
+    return () => clearTimeout(timer);
+  }, [focusBlock]);
+
+  // Close any open editor when the page changes
+  useEffect(() => {
+    setEditingIndex(null);
+    setHistoryIndex(null);
+  }, [translation?.pageNumber]);
 
   // Dynamic Styles based on Appearance Settings
   const containerStyle = appearance.theme === 'sepia' 
@@ -81,6 +154,23 @@ const TranslationViewer = forwardRef<HTMLDivElement, TranslationViewerProps>(({
     );
   }
 
+  if (error) {
+    const { title, message } = describeServiceError(error);
+    return (
+      <div className="flex flex-col items-center justify-center h-full p-6 text-center" style={containerStyle}>
+        <div className="mb-4 text-3xl">🙀</div>
+        <p className="mb-2 pixel-font text-xs">{title}</p>
+        <p className="mb-4 text-sm serif opacity-80 max-w-xs">{message}</p>
+        <button 
+          onClick={onRetry}
+          className="px-4 py-2 rpg-btn text-xs font-bold"
+        >
+          重新施法 (Retry)
+        </button>
+      </div>
+    );
+  }
+
   if (!translation || translation.blocks.length === 0) {
     return (
       <div className="flex flex-col items-center justify-center h-full p-6 text-center" style={containerStyle}>
@@ -99,23 +189,28 @@ const TranslationViewer = forwardRef<HTMLDivElement, TranslationViewerProps>(({
   }
 
   // Helper to render text with Glossary Tooltips
-  const renderRichText = (text: string, glossary: GlossaryTerm[]) => {
+  const renderRichText = (text: string, glossary: GlossaryTerm[], context: string) => {
     // Safety check for huge text blocks to prevent freezing
     if (text.length > 5000) return <span>{text.slice(0, 500)}... (Text too long, truncated)</span>;
 
-    const parts = text.split(/(\[\d+(?:-\d+)?(?:,\s*\d+)*\])/g);
+    const parts: (string | DetectedCitation)[] = [];
+    let cursor = 0;
+    for (const citation of detectCitations(text, references)) {
+      parts.push(text.slice(cursor, citation.start), citation);
+      cursor = citation.end;
+    }
+    parts.push(text.slice(cursor));
     
     return parts.map((part, idx) => {
-      if (/^\[\d+(?:-\d+)?(?:,\s*\d+)*\]$/.test(part)) {
-        const id = part.replace(/[\[\]]/g, '');
+      if (typeof part !== 'string') {
         return (
           <span 
             key={idx} 
-            onClick={(e) => { e.stopPropagation(); onCitationClick(id); }}
+            onClick={(e) => { e.stopPropagation(); onCitationClick(part, context); }}
             className={`font-bold cursor-pointer border-b border-dotted mx-0.5 px-0.5 rounded transition-colors ${appearance.theme === 'sepia' ? 'text-[#8B4513] border-[#8B4513] hover:bg-[#8B4513]/10' : 'text-[#DAA520] border-[#DAA520] hover:bg-[#DAA520]/20'}`}
             title="点击查看文献详情"
           >
-            {part}
+            {part.text}
           </span>
         );
       }
@@ -141,6 +236,7 @@ const TranslationViewer = forwardRef<HTMLDivElement, TranslationViewerProps>(({
                      <span className="absolute bottom-full left-1/2 -translate-x-1/2 mb-3 w-56 hidden group-hover/glossary:block z-50 pointer-events-none tooltip-anim">
                        <div className={`${tooltipBg} ${tooltipText} p-3 rounded-lg border-2 border-[#DAA520] shadow-xl relative`}>
                           <p className="pixel-font text-[10px] text-[#DAA520] mb-1 uppercase tracking-wider">Scholar Cat Note:</p>
+                          {g.translation && <p className="text-xs font-bold mb-1">{g.translation}</p>}
                           <p className="text-xs serif leading-relaxed">{g.definition}</p>
                           <div className={`absolute top-full left-1/2 -translate-x-1/2 w-0 h-0 border-l-[6px] border-l-transparent border-r-[6px] border-r-transparent border-t-[6px] border-t-[${appearance.theme === 'sepia' ? '#fffef0' : '#2c1810'}]`}></div>
                        </div>
@@ -162,18 +258,55 @@ const TranslationViewer = forwardRef<HTMLDivElement, TranslationViewerProps>(({
     });
   };
 
+  const blocks = applyBlockEdits(translation);
+  const edits = translation.edits || {};
+
+  const startEditing = (idx: number) => {
+    setEditingIndex(idx);
+    setDraft(blocks[idx].target);
+    setHistoryIndex(null);
+  };
+
+  const saveEditing = () => {
+    if (editingIndex === null) return;
+    onEditsChange(editBlock(edits, translation.blocks[editingIndex], draft.trim()));
+    setEditingIndex(null);
+  };
+
+  const cellBorderClass = appearance.theme === 'sepia' ? 'border-[#8B4513]/40' : 'border-[#DAA520]/40';
+
+  const toolButtonClass = `px-1 text-[9px] font-bold pixel-font border ${appearance.theme === 'sepia' ? 'bg-[#fffef0] border-[#8B4513] text-[#8B4513]' : 'bg-[#2c1810] border-[#DAA520] text-[#DAA520]'}`;
+
   return (
     <div 
       className="h-full overflow-y-auto p-8 space-y-6 relative custom-scrollbar scroll-smooth" 
       style={containerStyle}
-      ref={ref}
+      ref={(node) => {
+          containerRef.current = node;
+          if (typeof ref === 'function') ref(node);
+          else if (ref) (ref as React.MutableRefObject<HTMLDivElement | null>).current = node;
+      }}
     >
       <div className="absolute inset-0 pointer-events-none opacity-10 z-0" style={{backgroundImage: 'url("https://www.transparenttextures.com/patterns/paper.png")'}}></div>
       
       <div className={`mb-6 pb-2 border-b-2 flex justify-between items-center relative z-10 ${appearance.theme === 'sepia' ? 'border-[#8B4513]' : 'border-[#DAA520]'}`}>
-        <h3 className={`text-xs font-bold pixel-font uppercase ${appearance.theme === 'sepia' ? 'text-[#8B4513]' : 'text-[#DAA520]'}`}>
-          第 {translation.pageNumber} 章 (Chapter {translation.pageNumber})
-        </h3>
+        <div className="flex items-center gap-2">
+          <h3 className={`text-xs font-bold pixel-font uppercase ${appearance.theme === 'sepia' ? 'text-[#8B4513]' : 'text-[#DAA520]'}`}>
+            第 {translation.pageNumber} 章 (Chapter {translation.pageNumber})
+          </h3>
+          {/* Which input produced this page: the PDF text layer or a screenshot */}
+          <span
+            className={`px-1 text-[9px] font-bold pixel-font border ${appearance.theme === 'sepia' ? 'border-[#8B4513] text-[#8B4513]' : 'border-[#DAA520] text-[#DAA520]'} opacity-70`}
+            title={translation.source === 'text' ? '由 PDF 文本层直接翻译' : '由页面截图识别后翻译'}
+          >
+            {translation.source === 'text' ? '文本层 (TEXT)' : '识图 (IMAGE)'}
+          </span>
+          {translation.languages && (
+            <span className={`px-1 text-[9px] font-bold pixel-font border ${appearance.theme === 'sepia' ? 'border-[#8B4513] text-[#8B4513]' : 'border-[#DAA520] text-[#DAA520]'} opacity-70`}>
+              {translation.languages.source.toUpperCase()} → {translation.languages.target.toUpperCase()}
+            </span>
+          )}
+        </div>
         <button 
           onClick={onRetry} 
           className={`text-[10px] font-bold pixel-font flex items-center gap-1 hover:opacity-70`}
@@ -181,38 +314,85 @@ const TranslationViewer = forwardRef<HTMLDivElement, TranslationViewerProps>(({
           <span>↻</span> 重铸法术 (REFRESH)
         </button>
       </div>
+
+      {translation.continuesFromPreviousPage && (
+        <p className="relative z-10 text-[10px] pixel-font opacity-60">
+          ↑ 本页开头的半句已并入第 {translation.pageNumber - 1} 页末段
+        </p>
+      )}
       
-      {translation.blocks.map((block, idx) => (
-        <LazyBlock key={idx} heightHint={block.type === 'figure' ? 200 : 80}>
+      {blocks.map((block, idx) => {
+        const edit = getBlockEdit(translation, block);
+        return (
+        <LazyBlock key={idx} index={idx} heightHint={block.type === 'figure' || block.type === 'table' ? 200 : 80}>
           <div 
-            className={`group relative p-3 transition-colors cursor-pointer z-10 rounded hover:bg-black/5`}
-            onMouseEnter={() => onHoverBlock(block.en)}
+            className={`group relative p-3 transition-colors cursor-pointer z-10 rounded hover:bg-black/5 ${flashIndex === idx ? `border-l-4 ${highlightClass}` : ''}`}
+            onMouseEnter={() => onHoverBlock(block)}
             onMouseLeave={() => onHoverBlock(null)}
             onClick={(e) => {
-              if (block.type === 'equation') {
+              if (block.type === 'equation' && editingIndex !== idx) {
                 e.stopPropagation();
-                onEquationClick(block.en);
+                onEquationClick(block.source, surroundingText(blocks, idx));
               }
             }}
           >
             <div className={`absolute left-0 top-3 bottom-3 w-1 opacity-0 group-hover:opacity-100 transition-opacity rounded-full ${appearance.theme === 'sepia' ? 'bg-[#8B4513]' : 'bg-[#DAA520]'}`} />
-            
+
+            {/* Edit tools: revise the translation, lock it against refreshes, browse revisions */}
+            <div
+              className={`absolute top-0 right-0 flex gap-1 transition-opacity ${edit ? 'opacity-80' : 'opacity-0 group-hover:opacity-100'}`}
+              onClick={(e) => e.stopPropagation()}
+            >
+              {isEditedBlock(edit) && <span className={toolButtonClass} title="已人工修订">已修订</span>}
+              <button className={toolButtonClass} onClick={() => startEditing(idx)} title="修改译文">✎</button>
+              <button
+                className={toolButtonClass}
+                onClick={() => onEditsChange(toggleBlockLock(edits, block))}
+                title={edit?.locked ? '解锁 (重铸时只保留人工修改过的译文)' : '锁定 (重铸时保留)'}
+              >
+                {edit?.locked ? '🔒' : '🔓'}
+              </button>
+              {edit && edit.history.length > 1 && (
+                <button className={toolButtonClass} onClick={() => setHistoryIndex(historyIndex === idx ? null : idx)} title="修订历史">
+                  历史
+                </button>
+              )}
+            </div>
+
+            {editingIndex === idx ? (
+              <div className="space-y-2" onClick={(e) => e.stopPropagation()}>
+                <textarea
+                  value={draft}
+                  onChange={(e) => setDraft(e.target.value)}
+                  autoFocus
+                  rows={Math.min(12, Math.max(3, Math.ceil(draft.length / 40)))}
+                  className={`w-full p-2 border-2 leading-relaxed ${appearance.theme === 'sepia' ? 'bg-[#fffef0] border-[#8B4513] text-[#2c1810]' : 'bg-[#1a0f0a] border-[#DAA520] text-[#e8e4d9]'}`}
+                  style={textStyle}
+                />
+                <p className="text-xs opacity-60 italic">{block.source}</p>
+                <div className="flex gap-2">
+                  <button onClick={saveEditing} disabled={!draft.trim()} className="px-3 py-1 rpg-btn text-[10px] font-bold disabled:opacity-40">保存 (SAVE)</button>
+                  <button onClick={() => setEditingIndex(null)} className="px-3 py-1 text-[10px] border-2 border-[#8B4513] font-bold">取消 (CANCEL)</button>
+                </div>
+              </div>
+            ) : (
+            <>
             {block.type === 'heading' && (
               <h3 className="text-lg font-bold mb-2 mt-2 leading-tight" style={textStyle}>
-                {block.cn}
+                {block.target}
               </h3>
             )}
 
             {block.type === 'paragraph' && (
               <p className="leading-relaxed text-justify" style={textStyle}>
-                {renderRichText(block.cn, translation.glossary)}
+                {renderRichText(block.target, translation.glossary, block.source)}
               </p>
             )}
 
             {block.type === 'list' && (
               <div className={`p-3 rpg-border ${appearance.theme === 'sepia' ? 'bg-[#fffef0]' : 'bg-[#1a0f0a]'}`}>
                 <div className="prose prose-sm max-w-none" style={{...textStyle, color: 'inherit'}}>
-                  <ReactMarkdown>{block.cn}</ReactMarkdown>
+                  <ReactMarkdown>{block.target}</ReactMarkdown>
                 </div>
               </div>
             )}
@@ -226,7 +406,7 @@ const TranslationViewer = forwardRef<HTMLDivElement, TranslationViewerProps>(({
                 <div 
                   className="overflow-x-auto overflow-y-hidden py-2"
                   dangerouslySetInnerHTML={{ 
-                    __html: katex.renderToString(block.en, { 
+                    __html: katex.renderToString(block.source, { 
                       throwOnError: false, 
                       displayMode: true,
                       output: 'html'
@@ -234,7 +414,7 @@ const TranslationViewer = forwardRef<HTMLDivElement, TranslationViewerProps>(({
                   }} 
                 />
                 <p className="mt-2 text-xs text-left border-t pt-1 italic opacity-80" style={{borderColor: 'currentColor'}}>
-                  {block.cn !== '公式' ? block.cn : '此处为数学咒语'}
+                  {block.target !== '公式' ? block.target : '此处为数学咒语'}
                 </p>
               </div>
             )}
@@ -242,12 +422,95 @@ const TranslationViewer = forwardRef<HTMLDivElement, TranslationViewerProps>(({
             {block.type === 'figure' && (
               <div className={`my-4 border-2 border-dashed p-4 text-center rounded ${appearance.theme === 'sepia' ? 'border-[#8B4513] bg-[#fffef0]' : 'border-[#DAA520] bg-[#1a0f0a]'}`}>
                 <p className={`text-[10px] font-bold pixel-font uppercase mb-2 ${appearance.theme === 'sepia' ? 'text-[#8B4513]' : 'text-[#DAA520]'}`}>Illustration</p>
-                <p className="text-sm italic" style={textStyle}>{block.cn}</p>
+                {block.bbox && pdfBase64 && (
+                  <FigureImage pdfBase64={pdfBase64} pageNumber={translation.pageNumber} bbox={block.bbox} alt={block.source} />
+                )}
+                <p className="text-sm italic" style={textStyle}>{block.target}</p>
               </div>
             )}
+
+            {block.type === 'table' && (
+              <div className={`my-4 p-3 border-2 rounded ${appearance.theme === 'sepia' ? 'border-[#8B4513] bg-[#fffef0]' : 'border-[#DAA520] bg-[#1a0f0a]'}`}>
+                <div className="flex justify-between items-center mb-2">
+                  <p className={`text-[10px] font-bold pixel-font uppercase ${appearance.theme === 'sepia' ? 'text-[#8B4513]' : 'text-[#DAA520]'}`}>Table</p>
+                  {block.table && (
+                    <button
+                      className={toolButtonClass}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        navigator.clipboard.writeText(tableToCsv(block.table!))
+                          .then(() => {
+                            setCopiedIndex(idx);
+                            setTimeout(() => setCopiedIndex(null), 1500);
+                          })
+                          .catch(err => console.warn("Copy failed:", err));
+                      }}
+                      title="复制为 CSV (表头为译文)"
+                    >
+                      {copiedIndex === idx ? '已复制' : '复制 CSV'}
+                    </button>
+                  )}
+                </div>
+                {block.target && <p className="text-sm italic mb-2" style={textStyle}>{renderRichText(block.target, translation.glossary, block.source)}</p>}
+                {block.table && (
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-xs border-collapse" style={{ fontFamily: textStyle.fontFamily }}>
+                      <thead>
+                        <tr>
+                          {tableHeader(block.table).map((cell, c) => (
+                            <th key={c} className={`border px-2 py-1 text-left font-bold ${cellBorderClass}`} title={block.table!.header[c]}>{cell}</th>
+                          ))}
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {block.table.rows.map((row, r) => (
+                          <tr key={r}>
+                            {row.map((cell, c) => <td key={c} className={`border px-2 py-1 ${cellBorderClass}`}>{cell}</td>)}
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </div>
+            )}
+            </>
+            )}
+
+            {/* The sentence broken by the page break is translated here once, not split in two */}
+            {block.continuesOnNextPage && (
+              <p className="mt-1 text-[10px] pixel-font opacity-60" title="句子跨页，已与下一页开头合并翻译">
+                ↓ 跨页合并 · 句末见第 {translation.pageNumber + 1} 页
+              </p>
+            )}
+
+            {historyIndex === idx && edit && (
+              <ul
+                className={`mt-2 p-2 border-2 space-y-1 text-xs ${appearance.theme === 'sepia' ? 'bg-[#fffef0] border-[#8B4513]' : 'bg-[#1a0f0a] border-[#DAA520]'}`}
+                onClick={(e) => e.stopPropagation()}
+              >
+                {edit.history.map((revision, revIdx) => (
+                  <li key={revIdx} className="flex items-start gap-2">
+                    <span className="shrink-0 pixel-font text-[9px] opacity-70">
+                      {revision.author === 'model' ? '模型' : '修订'} · {new Date(revision.at).toLocaleString()}
+                    </span>
+                    <span className="flex-1 truncate" title={revision.target}>{revision.target}</span>
+                    {revision.target !== edit.target && (
+                      <button
+                        onClick={() => onEditsChange(restoreRevision(edits, block, revIdx))}
+                        className="shrink-0 text-[9px] font-bold underline"
+                      >
+                        恢复
+                      </button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
           </div>
         </LazyBlock>
-      ))}
+        );
+      })}
       <div className="h-20" />
     </div>
   );
@@ -1,57 +1,208 @@
-import React, { useState } from 'react';
-import { translateSelection } from '../services/geminiService';
+import React, { useEffect, useRef, useState } from 'react';
+import { AlignedSentence, PassageTranslation, TranslationStyle } from '../types';
+import { translatePassage } from '../services/geminiService';
+import { describeServiceError } from '../services/errors';
+import { getPassages, savePassage, deletePassage } from '../utils/storage';
 import { LoaderIcon, LanguagesIcon } from './IconComponents';
 
-const Translator: React.FC = () => {
+interface TranslatorProps {
+  fingerprint: string | null;
+  prefill?: { text: string; pageNumber?: number } | null; // passage selected in the PDF
+  onPrefillHandled?: () => void;
+}
+
+const STYLE_OPTIONS: { id: TranslationStyle; label: string; hint: string }[] = [
+  { id: 'literal', label: '直译', hint: '贴近原文结构' },
+  { id: 'fluent', label: '意译', hint: '通顺易读' },
+  { id: 'academic', label: '学术', hint: '正式书面语' }
+];
+
+const styleLabel = (style: TranslationStyle) => STYLE_OPTIONS.find(o => o.id === style)?.label || style;
+
+// CJK sentences run together; other languages need a space between sentences
+const joinTargets = (sentences: AlignedSentence[]) =>
+  sentences.reduce((text, s) => !text || /[\u3000-\u9fff\uff00-\uffef]$/.test(text) ? text + s.target : `${text} ${s.target}`, '');
+
+const Translator: React.FC<TranslatorProps> = ({ fingerprint, prefill, onPrefillHandled }) => {
   const [sourceText, setSourceText] = useState('');
-  const [translatedText, setTranslatedText] = useState('');
+  const [style, setStyle] = useState<TranslationStyle>('academic');
+  const [pageNumber, setPageNumber] = useState<number | undefined>(undefined);
+  const [sentences, setSentences] = useState<AlignedSentence[]>([]);
+  const [resultStyle, setResultStyle] = useState<TranslationStyle>('academic');
+  const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
+  const [activeSentence, setActiveSentence] = useState<number | null>(null);
+  const [history, setHistory] = useState<PassageTranslation[]>([]);
+  const [query, setQuery] = useState('');
+  const handledPrefill = useRef<TranslatorProps['prefill']>(null);
+
+  useEffect(() => {
+    if (!fingerprint) return;
+    getPassages(fingerprint).then(setHistory).catch(e => console.error("Failed to load translation history:", e));
+  }, [fingerprint]);
 
-  const handleTranslate = async () => {
-    if (!sourceText.trim()) return;
+  const runTranslation = async (text: string, page?: number) => {
+    if (!text.trim()) return;
     setLoading(true);
+    setError(null);
+    setSentences([]);
     try {
-      const result = await translateSelection(sourceText);
-      setTranslatedText(result);
+      const result = await translatePassage(text, style);
+      setSentences(result.sentences);
+      setResultStyle(style);
+      if (fingerprint && result.sentences.length > 0) {
+        const record: PassageTranslation = {
+          id: `${fingerprint}_${Date.now()}`,
+          fingerprint,
+          source: text.trim(),
+          style,
+          sentences: result.sentences,
+          languages: result.languages,
+          pageNumber: page,
+          createdAt: Date.now()
+        };
+        setHistory(prev => [record, ...prev]);
+        savePassage(record).catch(e => console.error("Failed to save translation history:", e));
+      }
     } catch (e) {
-      setTranslatedText("翻译出错，请重试");
+      setError(`翻译出错：${describeServiceError(e).message}`);
     } finally {
       setLoading(false);
     }
   };
 
+  // A passage sent from the PDF selection menu is translated right away (once, even if the effect re-runs)
+  useEffect(() => {
+    if (!prefill || handledPrefill.current === prefill) return;
+    handledPrefill.current = prefill;
+    setSourceText(prefill.text);
+    setPageNumber(prefill.pageNumber);
+    onPrefillHandled?.();
+    runTranslation(prefill.text, prefill.pageNumber);
+  }, [prefill]);
+
+  const openRecord = (record: PassageTranslation) => {
+    setSourceText(record.source);
+    setStyle(record.style);
+    setPageNumber(record.pageNumber);
+    setSentences(record.sentences);
+    setResultStyle(record.style);
+    setError(null);
+  };
+
+  const removeRecord = async (id: string) => {
+    setHistory(prev => prev.filter(r => r.id !== id));
+    await deletePassage(id).catch(e => console.error("Failed to delete translation:", e));
+  };
+
+  const q = query.trim().toLowerCase();
+  const visibleHistory = q
+    ? history.filter(r => r.source.toLowerCase().includes(q) || r.sentences.some(s => s.target.toLowerCase().includes(q)))
+    : history;
+
   return (
-    <div className="flex flex-col h-full p-4 space-y-4">
-      <div className="flex items-center gap-2 text-indigo-600 font-medium mb-2">
-        <LanguagesIcon className="w-5 h-5" />
-        <h2>智能段落翻译</h2>
+    <div className="flex flex-col h-full p-4 space-y-4 overflow-y-auto custom-scrollbar bg-[#e8e4d9] text-[#2c1810]">
+      <div className="flex items-center gap-2 border-b-2 border-[#8B4513] pb-2">
+        <LanguagesIcon className="w-5 h-5 text-[#8B4513]" />
+        <h2 className="font-bold pixel-font text-xs">段落翻译 (TRANSLATE)</h2>
       </div>
-      
-      <div className="flex-1 flex flex-col gap-2">
-        <label className="text-xs font-semibold text-slate-500 uppercase">英文原文</label>
+
+      <div className="flex flex-col gap-2">
+        <label className="text-[10px] font-bold pixel-font text-[#8B4513]">
+          原文 {pageNumber && <span className="opacity-70">· 第 {pageNumber} 页</span>}
+        </label>
         <textarea
-          className="flex-1 w-full p-3 border border-slate-300 rounded-lg resize-none text-sm focus:ring-2 focus:ring-indigo-500 outline-none font-mono"
-          placeholder="在此粘贴论文中的长难句或段落..."
+          className="w-full h-32 p-3 border-2 border-[#8B4513] bg-[#f5f2e9] resize-none text-sm outline-none focus:border-[#DAA520] serif"
+          placeholder="在此粘贴论文中的长难句或段落，或在左侧 PDF 划词后点「段落翻译」..."
           value={sourceText}
-          onChange={(e) => setSourceText(e.target.value)}
+          onChange={(e) => { setSourceText(e.target.value); setPageNumber(undefined); }}
         />
       </div>
 
+      <div className="flex gap-2">
+        {STYLE_OPTIONS.map(option => (
+          <button
+            key={option.id}
+            onClick={() => setStyle(option.id)}
+            title={option.hint}
+            className={`flex-1 py-1 text-xs border-2 font-bold ${style === option.id ? 'bg-[#2c1810] text-[#DAA520] border-[#DAA520]' : 'border-[#8B4513] text-[#8B4513]'}`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
       <button
-        onClick={handleTranslate}
+        onClick={() => runTranslation(sourceText, pageNumber)}
         disabled={loading || !sourceText.trim()}
-        className="w-full py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50 font-medium transition-colors flex justify-center items-center gap-2"
+        className="w-full py-2 rpg-btn pixel-font text-xs disabled:opacity-40 flex justify-center items-center gap-2"
       >
-        {loading ? <LoaderIcon className="w-4 h-4 animate-spin" /> : null}
-        {loading ? '翻译中...' : '开始翻译'}
+        {loading && <LoaderIcon className="w-4 h-4 animate-spin" />}
+        {loading ? '翻译中...' : '开始翻译 (TRANSLATE)'}
       </button>
 
-      <div className="flex-1 flex flex-col gap-2">
-        <label className="text-xs font-semibold text-slate-500 uppercase">中文译文</label>
-        <div className="flex-1 w-full p-3 bg-slate-50 border border-slate-200 rounded-lg text-sm leading-relaxed overflow-y-auto text-slate-800 serif">
-          {translatedText || <span className="text-slate-400 italic">译文将显示在这里...</span>}
+      {error && <p className="text-xs text-red-700">{error}</p>}
+
+      {/* Sentence pairs, one row each; the hovered pair is highlighted */}
+      {sentences.length > 0 && (
+        <div className="border-2 border-[#8B4513] bg-[#fffef0]">
+          <div className="flex justify-between items-center px-2 py-1 border-b border-[#8B4513]/40">
+            <span className="text-[10px] font-bold pixel-font text-[#8B4513]">逐句对照 · {styleLabel(resultStyle)}</span>
+            <button
+              onClick={() => navigator.clipboard.writeText(joinTargets(sentences)).catch(e => console.warn("Copy failed:", e))}
+              className="text-[10px] font-bold underline text-[#8B4513]"
+            >
+              复制译文
+            </button>
+          </div>
+          {sentences.map((sentence, i) => (
+            <div
+              key={i}
+              onMouseEnter={() => setActiveSentence(i)}
+              onMouseLeave={() => setActiveSentence(null)}
+              className={`grid grid-cols-2 gap-3 px-2 py-1.5 text-sm border-b border-[#8B4513]/10 last:border-b-0 ${activeSentence === i ? 'bg-[#DAA520]/20' : ''}`}
+            >
+              <p className="serif text-[#5c4033]">{sentence.source}</p>
+              <p className="serif leading-relaxed">{sentence.target}</p>
+            </div>
+          ))}
         </div>
-      </div>
+      )}
+
+      {fingerprint && (
+        <div className="space-y-2">
+          <div className="flex items-center gap-2">
+            <h3 className="text-[10px] font-bold pixel-font text-[#8B4513] shrink-0">历史 (HISTORY)</h3>
+            <input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="搜索原文或译文..."
+              className="flex-1 px-2 py-1 text-xs border-2 border-[#8B4513] bg-[#f5f2e9]"
+            />
+          </div>
+          {visibleHistory.length === 0 ? (
+            <p className="text-xs text-center opacity-60 py-2">{history.length === 0 ? '这篇论文还没有翻译记录' : '没有匹配的记录'}</p>
+          ) : (
+            visibleHistory.map(record => (
+              <div key={record.id} className="group flex items-start gap-2 p-2 border border-[#8B4513]/40 bg-[#f5f2e9] hover:border-[#DAA520] cursor-pointer" onClick={() => openRecord(record)}>
+                <div className="flex-1 min-w-0">
+                  <p className="text-xs truncate">{record.source}</p>
+                  <p className="text-[10px] opacity-60">
+                    {styleLabel(record.style)}{record.pageNumber ? ` · 第 ${record.pageNumber} 页` : ''} · {new Date(record.createdAt).toLocaleString()}
+                  </p>
+                </div>
+                <button
+                  onClick={(e) => { e.stopPropagation(); removeRecord(record.id); }}
+                  className="text-[10px] text-red-700 opacity-0 group-hover:opacity-100"
+                  title="删除记录"
+                >
+                  X
+                </button>
+              </div>
+            ))
+          )}
+        </div>
+      )}
     </div>
   );
 };
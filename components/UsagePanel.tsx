@@ -0,0 +1,218 @@
+import React, { useEffect, useState } from 'react';
+import { UsageFeature, UsageRecord } from '../types';
+import { getUsageRecords, clearUsageRecords } from '../utils/storage';
+import { getUsageBudget, setUsageBudget, setUsagePaper, USAGE_FEATURE_LABELS, UsageBudget } from '../services/usageTracker';
+import { getValidationLog, clearValidationLog } from '../services/validationLog';
+
+interface UsagePanelProps {
+  fingerprint: string | null;
+  paperName?: string;
+  onClose: () => void;
+}
+
+interface UsageTotals {
+  promptTokens: number;
+  completionTokens: number;
+  cost: number;
+  unpriced: number; // records whose model has no known price
+  estimated: number;
+  count: number;
+}
+
+const emptyTotals = (): UsageTotals => ({ promptTokens: 0, completionTokens: 0, cost: 0, unpriced: 0, estimated: 0, count: 0 });
+
+const addToTotals = (totals: UsageTotals, record: UsageRecord) => {
+  totals.promptTokens += record.promptTokens;
+  totals.completionTokens += record.completionTokens;
+  if (record.cost === null) totals.unpriced += 1;
+  else totals.cost += record.cost;
+  if (record.estimated) totals.estimated += 1;
+  totals.count += 1;
+};
+
+const formatTokens = (n: number) => n >= 1_000_000 ? `${(n / 1_000_000).toFixed(2)}M` : n >= 1000 ? `${(n / 1000).toFixed(1)}k` : String(n);
+const formatCost = (totals: UsageTotals) => `$${totals.cost.toFixed(4)}${totals.unpriced > 0 ? '+' : ''}`;
+
+const parseLimit = (value: string): number | null => {
+  const n = parseInt(value, 10);
+  return Number.isFinite(n) && n > 0 ? n : null;
+};
+
+const UsagePanel: React.FC<UsagePanelProps> = ({ fingerprint, paperName, onClose }) => {
+  const [records, setRecords] = useState<UsageRecord[]>([]);
+  const [scope, setScope] = useState<'paper' | 'all'>(fingerprint ? 'paper' : 'all');
+  const [budget, setBudget] = useState<UsageBudget>(getUsageBudget);
+  const [validationLog, setValidationLog] = useState(getValidationLog);
+
+  useEffect(() => {
+    getUsageRecords().then(setRecords).catch(e => console.error("Failed to load usage:", e));
+  }, []);
+
+  const visible = scope === 'paper' && fingerprint ? records.filter(r => r.fingerprint === fingerprint) : records;
+
+  const overall = emptyTotals();
+  const byFeature = new Map<UsageFeature, UsageTotals>();
+  for (const record of visible) {
+    addToTotals(overall, record);
+    const totals = byFeature.get(record.feature) || emptyTotals();
+    addToTotals(totals, record);
+    byFeature.set(record.feature, totals);
+  }
+
+  const updateBudget = (patch: Partial<UsageBudget>) => {
+    const next = { ...budget, ...patch };
+    setBudget(next);
+    setUsageBudget(next);
+  };
+
+  const handleClearUsage = async () => {
+    if (!window.confirm('确定清空所有用量记录吗？')) return;
+    await clearUsageRecords();
+    // Reset the running total the prefetch budget is checked against
+    await setUsagePaper(fingerprint);
+    setRecords([]);
+  };
+
+  const handleClearValidation = () => {
+    clearValidationLog();
+    setValidationLog(getValidationLog());
+  };
+
+  const paperTokens = fingerprint
+    ? records.filter(r => r.fingerprint === fingerprint).reduce((sum, r) => sum + r.promptTokens + r.completionTokens, 0)
+    : 0;
+
+  return (
+    <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/50 p-4 animate-in fade-in">
+      <div className="bg-[#e8e4d9] w-full max-w-lg border-4 border-[#2c1810] shadow-2xl p-0 relative max-h-full flex flex-col">
+        <div className="bg-[#2c1810] text-[#DAA520] p-2 flex justify-between items-center">
+          <h3 className="pixel-font text-xs">魔力账本 (USAGE)</h3>
+          <button onClick={onClose} className="text-[#e8e4d9]">X</button>
+        </div>
+
+        <div className="p-4 space-y-4 overflow-y-auto custom-scrollbar">
+          {/* Scope */}
+          <div className="flex gap-2">
+            <button
+              onClick={() => setScope('paper')}
+              disabled={!fingerprint}
+              className={`flex-1 py-1 text-xs border-2 font-bold truncate disabled:opacity-40 ${scope === 'paper' ? 'bg-[#2c1810] text-[#DAA520] border-[#DAA520]' : 'border-[#8B4513] text-[#8B4513]'}`}
+            >
+              本卷 {paperName ? `(${paperName})` : ''}
+            </button>
+            <button
+              onClick={() => setScope('all')}
+              className={`flex-1 py-1 text-xs border-2 font-bold ${scope === 'all' ? 'bg-[#2c1810] text-[#DAA520] border-[#DAA520]' : 'border-[#8B4513] text-[#8B4513]'}`}
+            >
+              全部 (ALL)
+            </button>
+          </div>
+
+          {/* Totals */}
+          <div className="grid grid-cols-3 gap-2 text-center">
+            <div className="bg-[#f5f2e9] border-2 border-[#2c1810] p-2">
+              <p className="pixel-font text-[10px] text-[#8B4513]">输入 (IN)</p>
+              <p className="font-bold text-[#2c1810]">{formatTokens(overall.promptTokens)}</p>
+            </div>
+            <div className="bg-[#f5f2e9] border-2 border-[#2c1810] p-2">
+              <p className="pixel-font text-[10px] text-[#8B4513]">输出 (OUT)</p>
+              <p className="font-bold text-[#2c1810]">{formatTokens(overall.completionTokens)}</p>
+            </div>
+            <div className="bg-[#f5f2e9] border-2 border-[#2c1810] p-2">
+              <p className="pixel-font text-[10px] text-[#8B4513]">花费 (COST)</p>
+              <p className="font-bold text-[#2c1810]">{formatCost(overall)}</p>
+            </div>
+          </div>
+          {(overall.estimated > 0 || overall.unpriced > 0) && (
+            <p className="text-[10px] text-[#5c4033]">
+              {overall.estimated > 0 && `其中 ${overall.estimated}/${overall.count} 次响应没有返回 usage，按字符数估算。`}
+              {overall.unpriced > 0 && '部分模型没有价格，未计入花费。'}
+            </p>
+          )}
+
+          {/* By feature */}
+          <table className="w-full text-xs text-[#2c1810]">
+            <thead>
+              <tr className="border-b-2 border-[#8B4513] text-left pixel-font text-[10px] text-[#8B4513]">
+                <th className="py-1">功能</th>
+                <th className="py-1 text-right">次数</th>
+                <th className="py-1 text-right">Token</th>
+                <th className="py-1 text-right">花费</th>
+              </tr>
+            </thead>
+            <tbody>
+              {Array.from(byFeature.entries()).map(([feature, totals]) => (
+                <tr key={feature} className="border-b border-[#8B4513]/20">
+                  <td className="py-1">{USAGE_FEATURE_LABELS[feature]}</td>
+                  <td className="py-1 text-right">{totals.count}</td>
+                  <td className="py-1 text-right">{formatTokens(totals.promptTokens + totals.completionTokens)}</td>
+                  <td className="py-1 text-right">{formatCost(totals)}</td>
+                </tr>
+              ))}
+              {byFeature.size === 0 && (
+                <tr><td colSpan={4} className="py-3 text-center text-[#5c4033] opacity-60">暂无记录</td></tr>
+              )}
+            </tbody>
+          </table>
+
+          {/* Budgets */}
+          <div className="border-t-2 border-[#8B4513]/20 pt-4 space-y-3">
+            <h4 className="pixel-font text-xs font-bold text-[#2c1810]">预算 (BUDGET)</h4>
+            <label className="block text-xs font-bold text-[#8B4513]">
+              每卷上限 (Token)，超出后暂停后台预取
+              <input
+                type="number" min="0" step="1000" placeholder="不限"
+                value={budget.paperTokenLimit ?? ''}
+                onChange={(e) => updateBudget({ paperTokenLimit: parseLimit(e.target.value) })}
+                className="mt-1 w-full px-2 py-1 border-2 border-[#8B4513] bg-[#f5f2e9] text-[#2c1810] font-normal"
+              />
+            </label>
+            {fingerprint && budget.paperTokenLimit !== null && (
+              <p className={`text-[10px] ${paperTokens >= budget.paperTokenLimit ? 'text-red-700 font-bold' : 'text-[#5c4033]'}`}>
+                本卷已用 {formatTokens(paperTokens)} / {formatTokens(budget.paperTokenLimit)}
+                {paperTokens >= budget.paperTokenLimit && ' · 预取已暂停'}
+              </p>
+            )}
+            <label className="block text-xs font-bold text-[#8B4513]">
+              单次请求预计超过 (Token) 时先确认
+              <input
+                type="number" min="0" step="1000" placeholder="不提醒"
+                value={budget.confirmAboveTokens ?? ''}
+                onChange={(e) => updateBudget({ confirmAboveTokens: parseLimit(e.target.value) })}
+                className="mt-1 w-full px-2 py-1 border-2 border-[#8B4513] bg-[#f5f2e9] text-[#2c1810] font-normal"
+              />
+            </label>
+          </div>
+
+          {/* Validation failures */}
+          <div className="border-t-2 border-[#8B4513]/20 pt-4">
+            <h4 className="pixel-font text-xs font-bold text-[#2c1810] mb-2">格式校验失败 (SCHEMA)</h4>
+            {Object.keys(validationLog.counts).length === 0 ? (
+              <p className="text-xs text-[#5c4033] opacity-60">暂无记录</p>
+            ) : (
+              <ul className="text-xs text-[#2c1810] space-y-1">
+                {Object.entries(validationLog.counts).map(([feature, counts]) => (
+                  <li key={feature} className="flex justify-between">
+                    <span>{feature}</span>
+                    <span>首次 {counts.initial} · 修复后 {counts.repair}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <div className="flex gap-2 pt-2">
+            <button onClick={handleClearUsage} className="flex-1 py-1 text-[10px] border-2 border-[#8B4513] text-[#8B4513] font-bold hover:bg-[#8B4513] hover:text-[#e8e4d9]">
+              清空用量 (RESET)
+            </button>
+            <button onClick={handleClearValidation} className="flex-1 py-1 text-[10px] border-2 border-[#8B4513] text-[#8B4513] font-bold hover:bg-[#8B4513] hover:text-[#e8e4d9]">
+              清空校验记录
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UsagePanel;
@@ -0,0 +1,298 @@
+import { PageTranslation } from "../types";
+import { extractPageTextBlocks, getPdfPageCount, renderPageToCanvas, canvasToJpegBase64 } from "../utils/pdfUtils";
+import { getPageTranslation, getTranslatedPageNumbers, savePageTranslation } from "../utils/storage";
+import { translatePageContent } from "./geminiService";
+import { RequestPriority, reprioritize, clearPriorityGroup } from "./requestScheduler";
+import { ServiceError, toServiceError, isAbortError } from "./errors";
+import { collectGlossaryTerms } from "./terminology";
+import { stitchPageBlocks, TextLayerBlock } from "../utils/textLayout";
+
+// ================= 单页翻译 =================
+
+/**
+ * 翻译 PDF 的某一页：优先用文本层，没有可用文本层时用截图
+ * canvas 可以由调用方提供 (阅读器已渲染好的页面)，否则离屏渲染
+ */
+export const translatePdfPage = async (
+  base64Pdf: string,
+  pageNumber: number,
+  options: { priority?: RequestPriority; signal?: AbortSignal; canvas?: HTMLCanvasElement; group?: string } = {}
+): Promise<PageTranslation> => {
+  const { priority = RequestPriority.VISIBLE_PAGE, signal, group } = options;
+
+  const textBlocks = await extractPageTextBlocks(base64Pdf, pageNumber).catch(e => {
+    console.warn(`[Trans] Text layer unavailable for page ${pageNumber}:`, e);
+    return [];
+  });
+
+  let translation: PageTranslation;
+  if (textBlocks.length > 0) {
+    // 跨页段落：本页末句借用下一页开头补全，本页开头被上一页借走的半句不再翻译
+    const neighbour = (page: number): Promise<TextLayerBlock[]> =>
+      page < 1 ? Promise.resolve([]) : extractPageTextBlocks(base64Pdf, page).catch(() => []);
+    const [previous, next] = await Promise.all([neighbour(pageNumber - 1), neighbour(pageNumber + 1)]);
+    const { blocks, continuesFromPreviousPage } = stitchPageBlocks(previous, textBlocks, next);
+    translation = await translatePageContent({ kind: 'text', blocks }, priority, signal, group);
+    if (continuesFromPreviousPage) translation = { ...translation, continuesFromPreviousPage };
+  } else {
+    const canvas = options.canvas || await renderPageToCanvas(base64Pdf, pageNumber);
+    translation = await translatePageContent({ kind: 'image', base64: canvasToJpegBase64(canvas) }, priority, signal, group);
+  }
+  return { ...translation, pageNumber };
+};
+
+// 正在翻译的页面 (fingerprint_pageNum)：阅读器、预取和全卷任务共用，同一页不会重复请求
+const inFlightPages = new Map<string, { request: Promise<PageTranslation>; priority: RequestPriority }>();
+
+// 等待别人的请求时，自己的 signal 中断就不再等
+const untilAborted = (signal: AbortSignal) => new Promise<never>((_, reject) => {
+  const abort = () => reject(new DOMException('Request aborted', 'AbortError'));
+  if (signal.aborted) abort();
+  else signal.addEventListener('abort', abort, { once: true });
+});
+
+/**
+ * 翻译一页并写入缓存 (保留用户修订)，顺带把本页术语收进术语库
+ * 这一页已经在翻译时等待那次请求的结果，必要时把它提到调用方的优先级
+ */
+export const translateAndSavePage = async (
+  fingerprint: string,
+  base64Pdf: string,
+  pageNumber: number,
+  options: { priority?: RequestPriority; signal?: AbortSignal; canvas?: HTMLCanvasElement } = {}
+): Promise<PageTranslation> => {
+  const key = `${fingerprint}_${pageNumber}`;
+  const priority = options.priority ?? RequestPriority.VISIBLE_PAGE;
+  const running = inFlightPages.get(key);
+  if (running) {
+    if (priority < running.priority) {
+      reprioritize(key, priority);
+      running.priority = priority;
+    }
+    try {
+      return await (options.signal ? Promise.race([running.request, untilAborted(options.signal)]) : running.request);
+    } catch (error) {
+      // 被取消的是别人的请求：自己没有取消就重新翻译
+      if (!isAbortError(error) || options.signal?.aborted) throw error;
+      return translateAndSavePage(fingerprint, base64Pdf, pageNumber, options);
+    }
+  }
+
+  const request = (async () => {
+    const translation = await translatePdfPage(base64Pdf, pageNumber, { ...options, group: key });
+    const saved = await savePageTranslation(fingerprint, pageNumber, translation);
+    if (translation.languages) {
+      collectGlossaryTerms(fingerprint, translation.glossary, translation.languages).catch(e => console.warn("[Terms] Failed to collect glossary:", e));
+    }
+    return saved;
+  })();
+  const entry = { request, priority };
+  inFlightPages.set(key, entry);
+  try {
+    return await request;
+  } finally {
+    if (inFlightPages.get(key) === entry) {
+      inFlightPages.delete(key);
+      clearPriorityGroup(key);
+    }
+  }
+};
+
+// ================= 全卷翻译任务 =================
+// 后台逐页翻译整篇论文，每页完成后立即写入 translations 仓库；
+// 刷新页面后根据仓库里已有的页面续跑，只补没翻译的部分。
+
+export type BatchPageStatus = 'pending' | 'running' | 'done' | 'failed';
+export type BatchJobStatus = 'idle' | 'running' | 'paused' | 'cancelled' | 'done';
+
+export interface BatchJobState {
+  status: BatchJobStatus;
+  pages: BatchPageStatus[]; // index 0 = page 1
+  errors: Record<number, ServiceError>;
+  pausedReason?: string;
+}
+
+export interface BatchTranslationJob {
+  getState: () => BatchJobState;
+  subscribe: (listener: (state: BatchJobState) => void) => () => void;
+  start: (options?: { paused?: boolean }) => Promise<void>;
+  pause: () => void;
+  resume: () => void;
+  cancel: () => void;
+  retryFailed: () => void;
+  dispose: () => void; // 关闭论文时停止，但保留续跑标记
+}
+
+interface BatchJobOptions {
+  fingerprint: string;
+  base64Pdf: string;
+  concurrency?: number;
+  onPageDone?: (translation: PageTranslation) => void;
+}
+
+const JOBS_STORAGE_KEY = 'scholar_cat_batch_jobs';
+
+// 只持久化任务的开关状态，页面进度以 translations 仓库为准
+const loadJobFlags = (): Record<string, 'running' | 'paused'> => {
+  try {
+    return JSON.parse(localStorage.getItem(JOBS_STORAGE_KEY) || '{}') || {};
+  } catch (e) {
+    return {};
+  }
+};
+
+const saveJobFlag = (fingerprint: string, flag: 'running' | 'paused' | null) => {
+  const flags = loadJobFlags();
+  if (flag) flags[fingerprint] = flag;
+  else delete flags[fingerprint];
+  try {
+    localStorage.setItem(JOBS_STORAGE_KEY, JSON.stringify(flags));
+  } catch (e) {
+    // 无法持久化时任务只在本次会话有效
+  }
+};
+
+/**
+ * 这篇论文是否有未完成的全卷任务 (用于刷新后恢复)
+ */
+export const getSavedBatchJobFlag = (fingerprint: string): 'running' | 'paused' | undefined =>
+  loadJobFlags()[fingerprint];
+
+export const createBatchTranslationJob = (options: BatchJobOptions): BatchTranslationJob => {
+  const { fingerprint, base64Pdf, concurrency = 2, onPageDone } = options;
+
+  let state: BatchJobState = { status: 'idle', pages: [], errors: {} };
+  const listeners = new Set<(state: BatchJobState) => void>();
+  let controller: AbortController | null = null;
+  let activeWorkers = 0;
+
+  const update = (patch: Partial<BatchJobState>) => {
+    state = { ...state, ...patch };
+    listeners.forEach(l => l(state));
+  };
+
+  const setPage = (pageNumber: number, status: BatchPageStatus, error?: ServiceError) => {
+    const pages = [...state.pages];
+    pages[pageNumber - 1] = status;
+    const errors = { ...state.errors };
+    if (error) errors[pageNumber] = error;
+    else delete errors[pageNumber];
+    update({ pages, errors });
+  };
+
+  const finishIfIdle = () => {
+    if (activeWorkers > 0 || state.status !== 'running') return;
+    if (state.pages.every(p => p === 'done' || p === 'failed')) {
+      update({ status: 'done' });
+      saveJobFlag(fingerprint, null);
+    }
+  };
+
+  const worker = async (signal: AbortSignal) => {
+    activeWorkers += 1;
+    try {
+      while (state.status === 'running' && !signal.aborted) {
+        const index = state.pages.indexOf('pending');
+        if (index === -1) break;
+        const pageNumber = index + 1;
+        setPage(pageNumber, 'running');
+
+        try {
+          // 任务开始后阅读器或预取可能已经翻译了这一页
+          const cached = await getPageTranslation(fingerprint, pageNumber);
+          if (cached) {
+            setPage(pageNumber, 'done');
+            onPageDone?.(cached);
+            continue;
+          }
+          const saved = await translateAndSavePage(fingerprint, base64Pdf, pageNumber, { priority: RequestPriority.PREFETCH, signal });
+          setPage(pageNumber, 'done');
+          onPageDone?.(saved);
+        } catch (error) {
+          if (isAbortError(error) || signal.aborted) {
+            setPage(pageNumber, 'pending');
+            break;
+          }
+          const serviceError = toServiceError(error);
+          if (serviceError.kind === 'budget') {
+            // 预算用完：这一页放回队列，整个任务暂停
+            setPage(pageNumber, 'pending');
+            update({ status: 'paused', pausedReason: serviceError.message });
+            saveJobFlag(fingerprint, 'paused');
+            break;
+          }
+          console.error(`[Batch] Page ${pageNumber} failed:`, error);
+          setPage(pageNumber, 'failed', serviceError);
+        }
+      }
+    } finally {
+      activeWorkers -= 1;
+      finishIfIdle();
+    }
+  };
+
+  const run = () => {
+    controller = new AbortController();
+    update({ status: 'running', pausedReason: undefined });
+    saveJobFlag(fingerprint, 'running');
+    const slots = Math.max(1, concurrency - activeWorkers);
+    for (let i = 0; i < slots; i++) worker(controller.signal);
+  };
+
+  return {
+    getState: () => state,
+
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+
+    start: async ({ paused = false } = {}) => {
+      const [pageCount, translated] = await Promise.all([
+        getPdfPageCount(base64Pdf),
+        getTranslatedPageNumbers(fingerprint)
+      ]);
+      const done = new Set(translated);
+      update({
+        pages: Array.from({ length: pageCount }, (_, i) => done.has(i + 1) ? 'done' : 'pending'),
+        errors: {}
+      });
+      if (paused) {
+        update({ status: 'paused' });
+      } else {
+        run();
+        finishIfIdle();
+      }
+    },
+
+    // 暂停：不再领取新页面，正在翻译的页面会完成
+    pause: () => {
+      if (state.status !== 'running') return;
+      update({ status: 'paused' });
+      saveJobFlag(fingerprint, 'paused');
+    },
+
+    resume: () => {
+      if (state.status !== 'paused') return;
+      run();
+    },
+
+    cancel: () => {
+      controller?.abort();
+      update({ status: 'cancelled' });
+      saveJobFlag(fingerprint, null);
+    },
+
+    retryFailed: () => {
+      const pages = state.pages.map(p => p === 'failed' ? 'pending' : p);
+      update({ pages, errors: {} });
+      if (state.status !== 'running') run();
+    },
+
+    dispose: () => {
+      controller?.abort();
+      listeners.clear();
+      state = { ...state, status: 'idle' };
+    }
+  };
+};
@@ -0,0 +1,132 @@
+import { RetryHint } from "./requestScheduler";
+
+// ================= 错误模型 =================
+// 服务层失败时一律抛出 ServiceError，不再返回伪造的结果；
+// 界面根据 kind 给出具体提示和重试入口。
+
+export type ServiceErrorKind =
+  | 'auth'              // Key 无效 / 无权限
+  | 'quota'             // 限流或额度用尽
+  | 'network'           // 网络中断、服务端 5xx
+  | 'parse'             // 模型返回内容无法解析
+  | 'content_too_large' // 超出上下文或请求体上限
+  | 'unsupported'       // 当前模型不支持这种输入 (例如纯文本模型收到图片)
+  | 'budget'            // 超出用量预算，或用户取消了高消耗请求
+  | 'unknown';
+
+export class ServiceError extends Error implements RetryHint {
+  kind: ServiceErrorKind;
+  status?: number;
+  retryAfterMs?: number;
+
+  constructor(kind: ServiceErrorKind, message: string, options: { status?: number; retryAfterMs?: number } = {}) {
+    super(message);
+    this.name = 'ServiceError';
+    this.kind = kind;
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+export class AuthError extends ServiceError {
+  constructor(message: string, status?: number) {
+    super('auth', message, { status });
+    this.name = 'AuthError';
+  }
+}
+
+export class QuotaError extends ServiceError {
+  constructor(message: string, status?: number, retryAfterMs?: number) {
+    super('quota', message, { status, retryAfterMs });
+    this.name = 'QuotaError';
+  }
+}
+
+export class NetworkError extends ServiceError {
+  constructor(message: string, status?: number, retryAfterMs?: number) {
+    super('network', message, { status, retryAfterMs });
+    this.name = 'NetworkError';
+  }
+}
+
+export class ParseError extends ServiceError {
+  constructor(message: string) {
+    super('parse', message);
+    this.name = 'ParseError';
+  }
+}
+
+export class ContentTooLargeError extends ServiceError {
+  constructor(message: string, status?: number) {
+    super('content_too_large', message, { status });
+    this.name = 'ContentTooLargeError';
+  }
+}
+
+export class UnsupportedInputError extends ServiceError {
+  constructor(message: string) {
+    super('unsupported', message);
+    this.name = 'UnsupportedInputError';
+  }
+}
+
+export class BudgetError extends ServiceError {
+  constructor(message: string) {
+    super('budget', message);
+    this.name = 'BudgetError';
+  }
+}
+
+// ================= 工具函数 =================
+
+const TOO_LARGE_PATTERN = /context[_ ]length|maximum context|too (large|long)|token limit|payload/i;
+
+/**
+ * 根据 HTTP 状态码构造对应的错误类型
+ */
+export const createHttpError = (status: number, detail: string, retryAfterMs?: number): ServiceError => {
+  const message = `Service Error ${status}: ${detail}`;
+  if (status === 401 || status === 403) return new AuthError(message, status);
+  if (status === 402 || status === 429) return new QuotaError(message, status, retryAfterMs);
+  if (status === 413 || (status === 400 && TOO_LARGE_PATTERN.test(detail))) return new ContentTooLargeError(message, status);
+  if (status >= 500) return new NetworkError(message, status, retryAfterMs);
+  return new ServiceError('unknown', message, { status });
+};
+
+/**
+ * 把任意异常归一成 ServiceError (fetch 的 TypeError 视为网络错误)
+ */
+export const toServiceError = (error: unknown): ServiceError => {
+  if (error instanceof ServiceError) return error;
+  if (error instanceof TypeError) return new NetworkError(error.message);
+  if (error instanceof Error) return new ServiceError('unknown', error.message);
+  return new ServiceError('unknown', String(error));
+};
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+/**
+ * 给界面用的错误文案
+ */
+export const describeServiceError = (error: unknown): { title: string; message: string } => {
+  const err = toServiceError(error);
+  switch (err.kind) {
+    case 'auth':
+      return { title: '钥匙不对 (AUTH)', message: 'API Key 无效或没有权限，请检查 .env 中的配置。' };
+    case 'quota':
+      return { title: '魔力耗尽 (QUOTA)', message: '请求太频繁或额度已用完，请稍后再试。' };
+    case 'network':
+      return { title: '信号中断 (NETWORK)', message: '无法连接到模型服务，请检查网络后重试。' };
+    case 'parse':
+      return { title: '符文难解 (PARSE)', message: '模型返回的内容格式有误，可以重试一次。' };
+    case 'content_too_large':
+      return { title: '卷轴太厚 (TOO LARGE)', message: '内容超出了当前模型的上下文上限，请换用更大上下文的模型。' };
+    case 'unsupported':
+      return { title: '能力不足 (UNSUPPORTED)', message: err.message };
+    case 'budget':
+      return { title: '预算告急 (BUDGET)', message: err.message };
+    default:
+      return { title: '未知异常 (ERROR)', message: err.message || '发生了未知错误，请重试。' };
+  }
+};
@@ -1,100 +1,97 @@
-import { PaperSummary, PageTranslation, ContentBlock, CitationInfo } from "../types";
+import { PaperSummary, PageTranslation, ContentBlock, CitationInfo, Reference, EquationExplanation, SummaryChunk, SummaryProgress, AlignedSentence, TranslationStyle } from "../types";
+import { splitTextIntoPages } from "../utils/pdfUtils";
+import { PaperIndex, RetrievedPassage, searchPaperIndex } from "../utils/retrieval";
+import { TextLayerBlock, unionBoxes, figureRegion } from "../utils/textLayout";
+import { SymbolDefinition } from "../utils/symbols";
+import { callModel, streamModel, embedTexts, getEmbeddingProvider, LLMMessage, LLMRequestOptions } from "./llmProviders";
+import { RequestPriority } from "./requestScheduler";
+import { Schema, ValidationResult, validateJson, paperSummarySchema, summaryChunkReplySchema, pageTranslationReplySchema, PageBlockReply, passageTranslationReplySchema, citationInfoSchema, equationExplanationReplySchema } from "./schemas";
+import { recordValidationFailure } from "./validationLog";
+import { ParseError, UnsupportedInputError, isAbortError } from "./errors";
+import { renderPrompt } from "./promptTemplates";
+import { getEnforcedTerms, formatTermsForPrompt } from "./terminology";
+import { getLanguageSettings, languagePromptName, resolveSourceLanguage } from "./languages";
 
-// ================= 配置区域 =================
-const API_KEY = import.meta.env.VITE_PROXY_API_KEY;
-const BASE_URL = import.meta.env.VITE_PROXY_BASE_URL; 
-const MODEL_NAME = '[贩子死妈]gemini-3-flash-preview'; 
-
-// 检查配置 (仅在控制台提示，不弹窗)
-if (!API_KEY || !BASE_URL) {
-  console.error("❌ API 配置缺失！请在 .env 中设置 API Key 和 Base URL");
-}
 
 // ================= 工具函数 =================
 
 /**
- * 通用 Fetch 请求封装
+ * 清洗 JSON 字符串
  */
-async function callProxyApi(messages: any[], jsonMode = false) {
-  const headers = {
-    "Content-Type": "application/json",
-    "Authorization": `Bearer ${API_KEY}`
-  };
-
-  const body: any = {
-    model: MODEL_NAME,
-    messages: messages,
-    stream: false,
-    temperature: 0.7
-  };
+function cleanJson(text: string): string {
+  if (!text) return "{}";
+  // 移除 Markdown 标记，防止解析失败
+  return text.replace(/```json/g, '').replace(/```/g, '').trim();
+}
 
-  if (jsonMode) {
-    body.response_format = { type: "json_object" };
-  }
+/**
+ * 请求 JSON 并按 schema 校验
+ * 不合规时把问题清单发回给模型修复一次；仍不合规则使用字段级默认值兜底。
+ * 两次都不是合法 JSON 时抛出 ParseError，绝不返回全是默认值的伪造结果。
+ */
+async function requestValidatedJson<T>(
+  feature: string,
+  messages: LLMMessage[],
+  schema: Schema<T>,
+  options: LLMRequestOptions = {}
+): Promise<T> {
+  const text = await callModel(messages, { ...options, jsonMode: true });
+  const first = validateJson(cleanJson(text), schema);
+  if (first.issues.length === 0) return first.value;
 
-  try {
-    const response = await fetch('/api/proxy', {
-      method: "POST",
-      headers: headers,
-      body: JSON.stringify(body)
-    });
-
-    if (!response.ok) {
-      const errData = await response.json().catch(() => ({}));
-      // 这里的 Error 只会在控制台看到，不会直接展示给用户
-      throw new Error(`Service Error ${response.status}: ${errData.error?.message || response.statusText}`);
-    }
+  recordValidationFailure(feature, 'initial', first.issues);
 
-    const data = await response.json();
-    
-    // 增加空值检查，防止 crash
-    if (!data.choices || !data.choices[0] || !data.choices[0].message) {
-        throw new Error("服务返回了空数据");
+  const repairMessages: LLMMessage[] = [
+    ...messages,
+    { role: "assistant", content: text || "" },
+    {
+      role: "user",
+      content: `Your previous JSON did not match the required structure:\n${first.issues.slice(0, 20).map(i => `- ${i}`).join('\n')}\nReturn the corrected JSON ONLY, with every required field present and the same structure as requested.`
     }
-    
-    return data.choices[0].message.content;
+  ];
 
+  let repaired: ValidationResult<T>;
+  try {
+    const repairText = await callModel(repairMessages, { ...options, jsonMode: true });
+    repaired = validateJson(cleanJson(repairText), schema);
   } catch (error) {
-    console.error("Service Request Failed:", error);
-    throw error;
+    if (!first.parsed || isAbortError(error)) throw error;
+    console.warn(`[Schema] ${feature} repair request failed, using defaults:`, error);
+    return first.value;
   }
-}
 
-/**
- * 清洗 JSON 字符串
- */
-function cleanJson(text: string): string {
-  if (!text) return "{}";
-  // 移除 Markdown 标记，防止解析失败
-  return text.replace(/```json/g, '').replace(/```/g, '').trim();
+  if (repaired.issues.length > 0) {
+    recordValidationFailure(feature, 'repair', repaired.issues);
+    // 两次都不合规时，取问题更少的那份 (已填充默认值)
+    const best = repaired.parsed && (repaired.issues.length <= first.issues.length || !first.parsed) ? repaired : first;
+    if (!best.parsed) throw new ParseError(`${feature}: 模型没有返回合法的 JSON`);
+    return best.value;
+  }
+  return repaired.value;
 }
 
 // ================= 核心业务函数 =================
 
-/**
- * 1. 生成论文摘要
- */
-// ... (之前的 import 和 callProxyApi 保持不变)
-
 /**
  * 1. 生成论文摘要 (基于全文文本)
+ * 短论文一次读完；长论文先按页窗口分段摘要 (map)，再合并成最终报告 (reduce)
  */
-export const generatePaperSummary = async (fullPaperText: string): Promise<PaperSummary> => {
-  
-  // 1. 检查文本长度，如果完全没提取到，直接报错
-  if (!fullPaperText || fullPaperText.length < 100) {
-      throw new Error("PDF 内容提取为空，可能文件是纯图片扫描版？");
-  }
+export interface SummaryChunkCache {
+  get: (key: string) => Promise<SummaryChunk | undefined>;
+  set: (key: string, chunk: SummaryChunk) => Promise<void>;
+}
+
+export interface SummaryOptions {
+  onProgress?: (progress: SummaryProgress) => void;
+  chunkCache?: SummaryChunkCache;
+}
 
-  const prompt = `
-    Role: You are the pixel library guardian "Scholar Cat" (学术猫).
-    Task: Analyze the full content of this academic paper and generate a "Magic Item Appraisal Report".
-    
-    Input: The user has provided the parsed text of the PDF below.
-    
-    Output JSON ONLY with this structure:
+const SUMMARY_SINGLE_PASS_PAGES = 10;
+const SUMMARY_WINDOW_PAGES = 8;
+
+const APPRAISAL_FORMAT = `
     {
-      "title": "Paper Title (Chinese)",
+      "title": "Paper Title (translated)",
       "tags": ["Tag1", "Tag2", "Tag3"],
       "tldr": {
         "painPoint": "The problem (metaphor, <30 words)",
@@ -105,192 +102,385 @@ export const generatePaperSummary = async (fullPaperText: string): Promise<Paper
         { "step": "Step Name", "desc": "Description" }
       ],
       "takeaways": ["Point 1", "Point 2", "Point 3"]
-    }
-
-    --- BEGIN PAPER CONTENT ---
-    ${fullPaperText}
-    --- END PAPER CONTENT ---
-  `;
+    }`;
 
-  // 构造纯文本消息 (不再用 image_url)
-  const messages = [
+const SUMMARY_CHUNK_FORMAT = `
     {
-      role: "user",
-      content: prompt 
-    }
-  ];
+      "sections": ["Section headings that appear in these pages"],
+      "keyPoints": ["Main claims or contributions in these pages"],
+      "methods": ["Methods, models or procedures described"],
+      "results": ["Experimental results, numbers, conclusions"]
+    }`;
 
-  try {
-    // 复用之前的反代调用函数
-    const text = await callProxyApi(messages, true);
-    return JSON.parse(cleanJson(text)) as PaperSummary;
-  } catch (error) {
-    console.error("Summary generation failed:", error);
-    // 返回兜底数据
-    return {
-      title: "解读中断",
-      tags: ["系统维护中"],
-      tldr: { 
-        painPoint: "文本量太大或提取失败", 
-        solution: "请尝试刷新重试", 
-        effect: "暂无数据" 
-      },
-      methodology: [],
-      takeaways: []
-    };
+/**
+ * 简单的字符串哈希，用于判断分段文本是否变化
+ */
+const hashText = (text: string): string => {
+  let hash = 5381;
+  for (let i = 0; i < text.length; i++) {
+    hash = ((hash << 5) + hash + text.charCodeAt(i)) | 0;
   }
+  return (hash >>> 0).toString(36);
 };
 
-
 /**
- * 2. 翻译页面
+ * Map：摘要一个页窗口，命中缓存时直接返回
  */
-export const translatePageContent = async (base64Image: string): Promise<PageTranslation> => {
-  const prompt = `
-    Analyze this image of an academic paper page.
-    1. Extract content into 'blocks' (translate EN to CN).
-    2. Extract 'glossary' terms (3-5 terms).
-    
-    Output JSON ONLY:
+const summarizeChunk = async (pages: string[], startPage: number, cache?: SummaryChunkCache): Promise<SummaryChunk> => {
+  const endPage = startPage + pages.length - 1;
+  const text = pages.map((p, i) => `--- Page ${startPage + i} ---\n${p}`).join('\n\n');
+  const cacheKey = `${startPage}-${endPage}_${hashText(text)}`;
+
+  const cached = await cache?.get(cacheKey);
+  if (cached) return cached;
+
+  const prompt = renderPrompt('summaryChunk', { startPage, endPage, format: SUMMARY_CHUNK_FORMAT, pages: text });
+
+  const data = await requestValidatedJson('summaryChunk', [{ role: "user", content: prompt }], summaryChunkReplySchema, { priority: RequestPriority.VISIBLE_PAGE, feature: 'summary' });
+  const chunk: SummaryChunk = { startPage, endPage, ...data };
+  await cache?.set(cacheKey, chunk);
+  return chunk;
+};
+
+export const generatePaperSummary = async (fullPaperText: string, options: SummaryOptions = {}): Promise<PaperSummary> => {
+  
+  // 1. 检查文本长度，如果完全没提取到，直接报错
+  if (!fullPaperText || fullPaperText.length < 100) {
+      throw new UnsupportedInputError("PDF 内容提取为空，可能文件是纯图片扫描版？");
+  }
+
+  const pages = splitTextIntoPages(fullPaperText);
+
+  // 2. 短论文：全文一次读完
+  if (pages.length <= SUMMARY_SINGLE_PASS_PAGES) {
+    const prompt = renderPrompt('summary', { format: APPRAISAL_FORMAT, paper: fullPaperText });
+
+    // 通过当前选中的服务商调用；失败时直接抛出，由调用方决定是否重试
+    return requestValidatedJson('summary', [{ role: "user", content: prompt }], paperSummarySchema, { priority: RequestPriority.VISIBLE_PAGE, feature: 'summary' });
+  }
+
+  // 3. 长论文 Map：按页窗口分段摘要 (并发由调度器控制)
+  const windows: { start: number; pages: string[] }[] = [];
+  for (let i = 0; i < pages.length; i += SUMMARY_WINDOW_PAGES) {
+    windows.push({ start: i + 1, pages: pages.slice(i, i + SUMMARY_WINDOW_PAGES) });
+  }
+
+  let done = 0;
+  options.onProgress?.({ stage: 'map', done, total: windows.length });
+  const chunks = await Promise.all(windows.map(async w => {
+    const chunk = await summarizeChunk(w.pages, w.start, options.chunkCache);
+    done += 1;
+    options.onProgress?.({ stage: 'map', done, total: windows.length });
+    return chunk;
+  }));
+
+  // 4. Reduce：把分段笔记合并成最终报告
+  options.onProgress?.({ stage: 'reduce', done: 0, total: 1 });
+
+  const notes = chunks.map(c => [
+    `## Pages ${c.startPage}-${c.endPage}`,
+    c.sections.length ? `Sections: ${c.sections.join(' / ')}` : '',
+    ...c.keyPoints.map(p => `- Key point: ${p}`),
+    ...c.methods.map(p => `- Method: ${p}`),
+    ...c.results.map(p => `- Result: ${p}`)
+  ].filter(Boolean).join('\n')).join('\n\n');
+
+  const prompt = renderPrompt('summaryMerge', { pageCount: pages.length, format: APPRAISAL_FORMAT, notes });
+
+  const summary = await requestValidatedJson('summary', [{ role: "user", content: prompt }], paperSummarySchema, { priority: RequestPriority.VISIBLE_PAGE, feature: 'summary' });
+  options.onProgress?.({ stage: 'reduce', done: 1, total: 1 });
+  return summary;
+};
+
+
+// 文本层输入用 refs 指回输入块编号，截图输入让模型估计块在页面上的位置
+const pageTranslationFormat = (position: string) => `
     {
       "blocks": [
-        { "type": "paragraph|heading|list|equation|figure", "en": "original text", "cn": "translated text" }
+        { "type": "paragraph|heading|list|equation|figure|table", "source": "original text", "target": "translated text", ${position} },
+        { "type": "table", "source": "original caption", "target": "translated caption", ${position}, "table": { "header": ["Column"], "headerTarget": ["Translated column"], "rows": [["cell"]] } }
       ],
       "glossary": [
-        { "term": "Term", "definition": "Chinese Definition" }
+        { "term": "Term", "translation": "Translated term", "definition": "Definition in the target language" }
       ]
-    }
-  `;
+    }`;
 
-  const messages = [
-    {
-      role: "user",
-      content: [
-        { type: "text", text: prompt },
-        {
-          type: "image_url",
-          image_url: { url: `data:image/jpeg;base64,${base64Image}` }
-        }
-      ]
-    }
-  ];
+const PAGE_TEXT_FORMAT = pageTranslationFormat('"refs": [1, 2]');
+const PAGE_IMAGE_FORMAT = pageTranslationFormat('"bbox": [x, y, width, height]');
 
-  try {
-    const text = await callProxyApi(messages, true);
-    const data = JSON.parse(cleanJson(text));
-    return {
-      pageNumber: 0,
-      blocks: data.blocks || [],
-      glossary: data.glossary || []
-    };
-  } catch (error) {
-    // ✅ 修改：不再提“反代”或“识图失败”
+/**
+ * 把输入块的信息带到输出块上：文本层按 refs 合并输入块的位置，
+ * 没有 refs 但块数和输入一致时按顺序一一对应；跨页合并的标记同样跟着 refs 走
+ */
+const resolveInputBlocks = (blocks: PageBlockReply[], input: PageContentInput): ContentBlock[] =>
+  blocks.map(({ refs, ...block }, i) => {
+    if (input.kind !== 'text') return block;
+    const sources = refs?.length
+      ? refs.map(n => input.blocks[n - 1]).filter((b): b is TextLayerBlock => !!b)
+      : blocks.length === input.blocks.length ? [input.blocks[i]] : [];
+    const textBox = unionBoxes(sources.map(b => b.bbox));
+    // 文本层里只有图注，图本身没有文字：按图注周围的空白推出整幅图的区域
+    const bbox = textBox && block.type === 'figure' ? figureRegion(textBox, input.blocks.map(b => b.bbox)) : textBox;
+    // 对不上输入块时，按顺序翻译的最后一块就是跨页的那块
+    const continues = sources.length > 0
+      ? sources.some(b => b.continuesOnNextPage)
+      : i === blocks.length - 1 && !!input.blocks[input.blocks.length - 1]?.continuesOnNextPage;
     return {
-      pageNumber: 0,
-      blocks: [{ type: "paragraph", en: "Network Error", cn: "暂时无法获取翻译内容，请检查网络连接。" }],
-      glossary: []
+      ...block,
+      ...(bbox ? { bbox } : {}),
+      ...(continues ? { continuesOnNextPage: true } : {})
     };
+  });
+
+/**
+ * 页面内容来源：PDF 文本层 (按位置分好的块) 或页面截图
+ */
+export type PageContentInput =
+  | { kind: 'text'; blocks: TextLayerBlock[] }
+  | { kind: 'image'; base64: string };
+
+/**
+ * 2. 翻译页面
+ * 数字版 PDF 直接翻译文本层，没有可用文本层时才退回截图识图
+ * group 是调度分组，用户翻到正在预取的页面时用它提升优先级
+ */
+export const translatePageContent = async (
+  input: PageContentInput,
+  priority: RequestPriority = RequestPriority.VISIBLE_PAGE,
+  signal?: AbortSignal,
+  group?: string
+): Promise<PageTranslation> => {
+  let messages: LLMMessage[];
+
+  const pageText = input.kind === 'text' ? input.blocks.map(b => b.text).join(' ') : undefined;
+
+  // 源语言自动时：文本层按本页文字检测，截图退回整篇论文的检测结果
+  const sourceLang = resolveSourceLanguage(pageText);
+  const targetLang = getLanguageSettings().target;
+
+  // 术语库里这个语言对已审核的译法；文本层只注入本页出现的术语，截图无法预知内容就按常用程度取
+  const terms = await getEnforcedTerms({ source: sourceLang, target: targetLang }, pageText).catch(e => {
+    console.warn("[Terms] Failed to load terminology:", e);
+    return [];
+  });
+  const terminology = formatTermsForPrompt(terms);
+  const languageVars = { sourceLanguage: languagePromptName(sourceLang), targetLanguage: languagePromptName(targetLang) };
+
+  if (input.kind === 'text') {
+    const blocks = input.blocks.map((b, i) => `[${i + 1}] (${b.kind}${b.continuesOnNextPage ? ', joined with next page' : ''}) ${b.text}`).join('\n\n');
+    messages = [
+      { role: "user", content: renderPrompt('pageTranslationText', { ...languageVars, format: PAGE_TEXT_FORMAT, terminology, blocks }) }
+    ];
+  } else {
+    const prompt = renderPrompt('pageTranslation', { ...languageVars, format: PAGE_IMAGE_FORMAT, terminology });
+    messages = [
+      {
+        role: "user",
+        content: [
+          { type: "text", text: prompt },
+          {
+            type: "image_url",
+            image_url: { url: `data:image/jpeg;base64,${input.base64}` }
+          }
+        ]
+      }
+    ];
   }
+
+  const data = await requestValidatedJson('pageTranslation', messages, pageTranslationReplySchema, { priority, signal, group, feature: 'pageTranslation' });
+  return {
+    pageNumber: 0,
+    blocks: resolveInputBlocks(data.blocks, input),
+    glossary: data.glossary,
+    source: input.kind,
+    languages: { source: sourceLang, target: targetLang }
+  };
 };
 
+// 检索不到片段时，退回发送全文开头这么多字符
+const FULLTEXT_FALLBACK_CHARS = 12000;
+
 /**
- * 3. 聊天功能
+ * 3. 聊天功能 (流式)
+ * 只发送与问题相关的段落 (带页码) 和历史对话，不依赖识图能力，所有模型走同一条路径；
+ * 逐段产出回复文本，调用方通过 signal 中断；出错时直接抛出，由界面决定如何保留已生成的部分
  */
-export const chatWithPaper = async (
+export async function* chatWithPaper(
   history: { role: 'user' | 'model', text: string }[],
   currentMessage: string,
-  base64Data: string,
-  mimeType: string
-): Promise<string> => {
-  
-  const systemPrompt = `
-    你是“Scholar Cat (学术猫)”，一只住在像素图书馆的魔法猫。
-    任务：辅助主人阅读英文文献。
-    风格：活泼可爱，句尾带 [=^..^=]，解释要用大白话和类比。
-    规则：如果问公式，用 LaTeX 格式输出。
-  `;
-
-  const apiMessages = [
-    { role: "system", content: systemPrompt },
-    {
-      role: "user",
-      content: [
-        { type: "text", text: "这是我正在阅读的文献，请基于此回答我的问题。" },
-        {
-          type: "image_url",
-          image_url: { url: `data:${mimeType};base64,${base64Data}` }
-        }
-      ]
-    },
-    ...history.map(h => ({
+  paper: { passages: RetrievedPassage[]; fullText?: string },
+  signal?: AbortSignal
+): AsyncGenerator<string> {
+
+  // 上下文的包装用英文，不影响回复语言 (由 chatSystem 按界面语言规定)
+  let context: string;
+  if (paper.passages.length > 0) {
+    context = `Excerpts from the paper most relevant to the question:\n\n${paper.passages.map(p => `[p.${p.page}] ${p.text}`).join('\n\n')}`;
+  } else if (paper.fullText) {
+    context = `Extracted text of the paper (may be truncated):\n\n${paper.fullText.slice(0, FULLTEXT_FALLBACK_CHARS)}`;
+  } else {
+    context = '(No paper text is available yet.)';
+  }
+
+  const apiMessages: LLMMessage[] = [
+    // 所有聊天后端共用同一套人设和公式规则 (见 promptTemplates)，切换模型时助手的口吻不变
+    { role: "system", content: renderPrompt('chatSystem') },
+    ...history.map((h): LLMMessage => ({
       role: h.role === 'model' ? 'assistant' : 'user', 
       content: h.text
     })),
-    { role: "user", content: currentMessage }
+    { role: "user", content: `${context}\n\nQuestion: ${currentMessage}` }
   ];
 
-  try {
-    return await callProxyApi(apiMessages);
-  } catch (error) {
-    // ✅ 修改：符合猫咪人设的错误提示
-    return "喵呜！魔法信号似乎中断了... 请稍后再试 [=T_T=]";
+  yield* streamModel(apiMessages, { signal, priority: RequestPriority.CHAT, feature: 'chat' });
+}
+
+const EMBEDDING_BATCH_SIZE = 32;
+
+/**
+ * 3a. 为检索索引补充向量 (后台执行，没有可用的向量化服务时原样返回)
+ */
+export const embedPaperIndex = async (index: PaperIndex): Promise<PaperIndex> => {
+  const provider = getEmbeddingProvider();
+  if (!provider || !provider.embeddingModel) return index;
+  if (index.embeddings?.model === provider.embeddingModel) return index;
+
+  const vectors: number[][] = [];
+  for (let i = 0; i < index.passages.length; i += EMBEDDING_BATCH_SIZE) {
+    const batch = index.passages.slice(i, i + EMBEDDING_BATCH_SIZE).map(p => p.text);
+    vectors.push(...await embedTexts(provider, batch));
   }
+  return { ...index, embeddings: { model: provider.embeddingModel, vectors } };
 };
 
 /**
- * 4. 划词翻译
+ * 3b. 检索与问题相关的段落
+ * 索引带向量且同一模型可用时做混合检索，向量化失败则退回纯 BM25
  */
-export const translateSelection = async (text: string): Promise<string> => {
-  const messages = [
-    { role: "system", content: "You are a professional academic translator. Translate the following text to Chinese." },
+export const retrievePassages = async (
+  index: PaperIndex,
+  query: string,
+  currentPage?: number,
+  signal?: AbortSignal
+): Promise<RetrievedPassage[]> => {
+  let queryEmbedding: number[] | undefined;
+  const provider = getEmbeddingProvider();
+  if (index.embeddings && provider?.embeddingModel === index.embeddings.model) {
+    try {
+      [queryEmbedding] = await embedTexts(provider, [query], { signal, priority: RequestPriority.CHAT });
+    } catch (e) {
+      if (signal?.aborted) throw e;
+      console.warn("[Retrieval] Query embedding failed, using BM25 only:", e);
+    }
+  }
+  return searchPaperIndex(index, query, { queryEmbedding, fallbackPage: currentPage });
+};
+
+const PASSAGE_TRANSLATION_FORMAT = `
+    {
+      "sentences": [
+        { "source": "one original sentence", "target": "its translation" }
+      ]
+    }`;
+
+// 译文风格写进提示词的说明
+const TRANSLATION_STYLE_PROMPTS: Record<TranslationStyle, string> = {
+  literal: 'literal. Stay close to the original wording and sentence structure, even where it reads less smoothly.',
+  fluent: 'fluent. Write natural, idiomatic prose that a general reader follows easily; restructure sentences freely.',
+  academic: 'academic. Use the formal register of a published paper and precise, standard terminology.'
+};
+
+/**
+ * 4. 段落翻译 (翻译工作台)
+ * 按句对齐返回，原文和译文可以逐句对照
+ */
+export const translatePassage = async (
+  text: string,
+  style: TranslationStyle
+): Promise<{ sentences: AlignedSentence[]; languages: { source: string; target: string } }> => {
+  const sourceLang = resolveSourceLanguage(text);
+  const targetLang = getLanguageSettings().target;
+  const messages: LLMMessage[] = [
+    {
+      role: "system",
+      content: renderPrompt('selection', {
+        sourceLanguage: languagePromptName(sourceLang),
+        targetLanguage: languagePromptName(targetLang),
+        style: TRANSLATION_STYLE_PROMPTS[style],
+        format: PASSAGE_TRANSLATION_FORMAT
+      })
+    },
     { role: "user", content: text }
   ];
-  try {
-    return await callProxyApi(messages);
-  } catch (error) {
-    return "翻译服务暂不可用";
-  }
+  const data = await requestValidatedJson('selection', messages, passageTranslationReplySchema, { priority: RequestPriority.CHAT, feature: 'selection' });
+  return {
+    sentences: data.sentences.filter(s => s.source.trim() || s.target.trim()),
+    languages: { source: sourceLang, target: targetLang }
+  };
 };
 
+const CITATION_FORMAT = `
+    {
+      "id": "the reference label",
+      "abstract": "what the cited work does",
+      "relevance": "why it is cited here",
+      "status": "MUST_READ" | "NORMAL" | "IGNORE"
+    }`;
+
+// 参考文献条目的文字版本 (已解析的字段 + 原文)
+const describeReference = (reference: Reference, abstract?: string) => [
+  reference.title && `Title: ${reference.title}`,
+  reference.authors.length > 0 && `Authors: ${reference.authors.join(', ')}`,
+  reference.venue && `Venue: ${reference.venue}`,
+  reference.year && `Year: ${reference.year}`,
+  reference.doi && `DOI: ${reference.doi}`,
+  reference.arxivId && `arXiv: ${reference.arxivId}`,
+  abstract && `Abstract: ${abstract}`,
+  `As printed: ${reference.raw}`
+].filter(Boolean).join('\n');
+
 /**
  * 5. 引用分析
+ * 条目已在本地从参考文献列表解析出来，这里只让模型写简介和引用原因，不再发送整份 PDF
+ * abstract 来自导入的 BibTeX/RIS 文献库 (如果匹配到)
  */
-export const analyzeCitation = async (citationId: string, base64Pdf: string, mimeType: string): Promise<CitationInfo> => {
-  const prompt = `
-    在文中找到引用 [${citationId}]。
-    返回 JSON: { "id": "${citationId}", "title": "...", "year": "...", "abstract": "...", "status": "NORMAL" }
-    找不到则 abstract 写 "未知"。
-  `;
-
-  const messages = [
-    {
-      role: "user",
-      content: [
-        { type: "text", text: prompt },
-        { type: "image_url", image_url: { url: `data:${mimeType};base64,${base64Pdf}` } }
-      ]
-    }
+export const analyzeCitation = async (reference: Reference, context: string, abstract?: string): Promise<CitationInfo> => {
+  const messages: LLMMessage[] = [
+    { role: "system", content: renderPrompt('citation', { format: CITATION_FORMAT }) },
+    { role: "user", content: `${describeReference(reference, abstract)}\n\nCiting passage:\n${context || '(unknown)'}` }
   ];
 
-  try {
-    const text = await callProxyApi(messages, true);
-    return JSON.parse(cleanJson(text)) as CitationInfo;
-  } catch (e) {
-    return { id: citationId, title: "获取失败", year: "?", abstract: "无法检索该文献信息", status: "NORMAL" };
-  }
+  const info = await requestValidatedJson('citation', messages, citationInfoSchema, { priority: RequestPriority.CHAT, feature: 'citation' });
+  return { ...info, id: reference.label };
 };
 
+const EQUATION_FORMAT = `
+    {
+      "symbols": [
+        { "symbol": "\\\\theta", "meaning": "what it stands for", "definedAt": "p.3" }
+      ],
+      "intuition": "what the equation does and why",
+      "example": "a small worked example with concrete numbers"
+    }`;
+
 /**
  * 6. 公式解释
+ * 附上公式前后的段落和论文中定义符号的句子，让符号按论文自己的含义解释
  */
-export const explainEquation = async (equation: string): Promise<string> => {
-  const messages = [
-    { role: "system", content: "解释以下数学公式，拆解符号含义，用通俗中文解释。" },
-    { role: "user", content: equation }
+export const explainEquation = async (
+  equation: string,
+  context: { surrounding: string; definitions: SymbolDefinition[] }
+): Promise<EquationExplanation> => {
+  const definitions = context.definitions.length > 0
+    ? context.definitions.map(d => `(p.${d.page}) ${d.text}`).join('\n')
+    : '(none found)';
+  const messages: LLMMessage[] = [
+    { role: "system", content: renderPrompt('equation', { format: EQUATION_FORMAT }) },
+    {
+      role: "user",
+      content: `Equation:\n${equation}\n\nSurrounding text:\n${context.surrounding || '(none)'}\n\nSentences of the paper that may define its symbols:\n${definitions}`
+    }
   ];
-  try {
-    return await callProxyApi(messages);
-  } catch (error) {
-    return "暂时无法解析此公式";
-  }
+  const data = await requestValidatedJson('equation', messages, equationExplanationReplySchema, { priority: RequestPriority.CHAT, feature: 'equation' });
+  return { ...data, equation, symbols: data.symbols.filter(s => s.symbol.trim()) };
 };
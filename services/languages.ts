@@ -0,0 +1,131 @@
+// ================= 语言设置 =================
+// 翻译的源语言 / 目标语言，以及人设回复用的界面语言。
+// 源语言可以设为自动：优先检测当前文本，检测不了 (例如截图) 就用整篇论文的检测结果。
+
+export type LanguageCode = 'en' | 'zh' | 'ja' | 'de' | 'fr' | 'es' | 'ko' | 'ru';
+
+export interface LanguageSettings {
+  source: LanguageCode | 'auto';
+  target: LanguageCode;
+  ui: LanguageCode; // 聊天、摘要、解释等人设回复使用的语言
+}
+
+export interface LanguageOption {
+  code: LanguageCode;
+  label: string;  // 界面显示
+  prompt: string; // 写进提示词的英文名
+}
+
+export const LANGUAGES: LanguageOption[] = [
+  { code: 'en', label: 'English', prompt: 'English' },
+  { code: 'zh', label: '中文', prompt: 'Simplified Chinese' },
+  { code: 'ja', label: '日本語', prompt: 'Japanese' },
+  { code: 'de', label: 'Deutsch', prompt: 'German' },
+  { code: 'fr', label: 'Français', prompt: 'French' },
+  { code: 'es', label: 'Español', prompt: 'Spanish' },
+  { code: 'ko', label: '한국어', prompt: 'Korean' },
+  { code: 'ru', label: 'Русский', prompt: 'Russian' }
+];
+
+const STORAGE_KEY = 'scholar_cat_languages';
+
+const DEFAULT_SETTINGS: LanguageSettings = { source: 'auto', target: 'zh', ui: 'zh' };
+
+const isLanguageCode = (value: unknown): value is LanguageCode => LANGUAGES.some(l => l.code === value);
+
+const loadSettings = (): LanguageSettings => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    if (saved) {
+      return {
+        source: saved.source === 'auto' || isLanguageCode(saved.source) ? saved.source : DEFAULT_SETTINGS.source,
+        target: isLanguageCode(saved.target) ? saved.target : DEFAULT_SETTINGS.target,
+        ui: isLanguageCode(saved.ui) ? saved.ui : DEFAULT_SETTINGS.ui
+      };
+    }
+  } catch (e) {
+    // 存储损坏时回落到默认设置
+  }
+  return { ...DEFAULT_SETTINGS };
+};
+
+let settings: LanguageSettings = loadSettings();
+
+// 当前论文的检测结果，截图翻译等拿不到文本的场景使用
+let paperLanguage: LanguageCode | null = null;
+
+export const getLanguageSettings = (): LanguageSettings => settings;
+
+export const setLanguageSettings = (next: LanguageSettings) => {
+  settings = next;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  } catch (e) {
+    // localStorage 不可用时只在本次会话生效
+  }
+};
+
+export const getLanguageOption = (code: LanguageCode): LanguageOption =>
+  LANGUAGES.find(l => l.code === code) || LANGUAGES[0];
+
+export const languagePromptName = (code: LanguageCode) => getLanguageOption(code).prompt;
+
+// ================= 自动检测 =================
+
+// 拉丁字母语言靠高频虚词区分
+const STOPWORDS: [LanguageCode, string[]][] = [
+  ['en', ['the', 'and', 'of', 'is', 'that', 'with', 'for', 'we', 'are', 'this']],
+  ['de', ['der', 'die', 'und', 'ist', 'nicht', 'mit', 'wir', 'auf', 'ein', 'eine', 'werden']],
+  ['fr', ['le', 'la', 'les', 'et', 'est', 'des', 'une', 'nous', 'dans', 'pour', 'sur']],
+  ['es', ['el', 'los', 'las', 'que', 'y', 'es', 'una', 'para', 'con', 'por', 'del']]
+];
+
+const MIN_DETECT_CHARS = 20;
+
+/**
+ * 根据字符集和高频词猜测文本语言；文本太短时返回 null
+ */
+export const detectLanguage = (text: string): LanguageCode | null => {
+  const sample = text.slice(0, 5000);
+  const letters = sample.replace(/[\s\d\p{P}\p{S}]/gu, '');
+  if (letters.length < MIN_DETECT_CHARS) return null;
+
+  const count = (re: RegExp) => (letters.match(re) || []).length;
+  const kana = count(/[\u3040-\u30ff]/g);
+  const hangul = count(/[\uac00-\ud7af]/g);
+  const han = count(/[\u4e00-\u9fff]/g);
+  const cyrillic = count(/[\u0400-\u04ff]/g);
+
+  if (kana > letters.length * 0.05) return 'ja';
+  if (hangul > letters.length * 0.2) return 'ko';
+  if (han > letters.length * 0.2) return 'zh';
+  if (cyrillic > letters.length * 0.2) return 'ru';
+
+  const words = sample.toLowerCase().split(/[^\p{L}]+/u);
+  let best: LanguageCode = 'en';
+  let bestScore = 0;
+  for (const [code, list] of STOPWORDS) {
+    const set = new Set(list);
+    const score = words.filter(w => set.has(w)).length;
+    if (score > bestScore) {
+      best = code;
+      bestScore = score;
+    }
+  }
+  return best;
+};
+
+/**
+ * 打开论文时记录整篇的检测结果
+ */
+export const setPaperLanguage = (text: string | null) => {
+  paperLanguage = text ? detectLanguage(text) : null;
+};
+
+/**
+ * 本次翻译使用的源语言：手动设置优先，其次检测传入文本，再次用论文的检测结果
+ */
+export const resolveSourceLanguage = (text?: string): LanguageCode => {
+  if (settings.source !== 'auto') return settings.source;
+  return (text && detectLanguage(text)) || paperLanguage || 'en';
+};
@@ -0,0 +1,424 @@
+import { RequestPriority, scheduleRequest, scheduleStream, parseRetryAfter } from "./requestScheduler";
+import { ParseError, UnsupportedInputError, createHttpError, toServiceError, isAbortError } from "./errors";
+import { trackRequest, estimateMessagesTokens, estimateTextTokens } from "./usageTracker";
+import { UsageFeature } from "../types";
+
+// ================= 类型定义 =================
+
+export type LLMRole = 'system' | 'user' | 'assistant';
+
+export type LLMContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } };
+
+export interface LLMMessage {
+  role: LLMRole;
+  content: string | LLMContentPart[];
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface LLMRequestOptions {
+  jsonMode?: boolean;
+  temperature?: number;
+  signal?: AbortSignal;
+  priority?: RequestPriority;
+  group?: string; // 调度分组，见 requestScheduler.reprioritize
+  feature?: UsageFeature; // 用量记账归类，默认记为聊天
+  onUsage?: (usage: TokenUsage) => void; // 服务端返回 usage 时回调
+}
+
+/**
+ * 所有模型服务商的统一接口
+ * 目前的实现都走 OpenAI 兼容的 /chat/completions 协议
+ */
+export interface LLMProvider {
+  id: string;
+  label: string;
+  models: string[];
+  supportsVision: boolean;
+  supportsJsonMode: boolean;
+  maxConcurrency: number;
+  isConfigured: () => boolean;
+  chat: (model: string, messages: LLMMessage[], options?: LLMRequestOptions) => Promise<string>;
+  chatStream: (model: string, messages: LLMMessage[], options?: LLMRequestOptions) => AsyncGenerator<string>;
+  // 可选：向量化接口 (用于论文检索)
+  embeddingModel?: string;
+  embed?: (texts: string[], options?: LLMRequestOptions) => Promise<number[][]>;
+}
+
+export interface ModelSelection {
+  providerId: string;
+  model: string;
+}
+
+interface OpenAICompatibleConfig {
+  id: string;
+  label: string;
+  endpoint: string;
+  apiKey?: string;
+  models: string[];
+  supportsVision: boolean;
+  supportsJsonMode: boolean;
+  maxConcurrency?: number;
+  requiresApiKey?: boolean;
+  embeddingEndpoint?: string;
+  embeddingModel?: string;
+}
+
+// ================= 工具函数 =================
+
+const parseModelList = (raw: string | undefined, fallback: string[]): string[] => {
+  const list = (raw || '').split(',').map(m => m.trim()).filter(Boolean);
+  return list.length > 0 ? list : fallback;
+};
+
+const toTokenUsage = (usage: any): TokenUsage | undefined =>
+  usage && typeof usage.prompt_tokens === 'number'
+    ? { promptTokens: usage.prompt_tokens, completionTokens: usage.completion_tokens ?? 0 }
+    : undefined;
+
+const hasImageInput = (messages: LLMMessage[]) =>
+  messages.some(m => Array.isArray(m.content) && m.content.some(part => part.type === 'image_url'));
+
+/**
+ * 逐行解析 SSE 流，产出每个 chunk 的增量文本
+ * 最后一个 chunk 携带的 usage 通过 onUsage 回调
+ */
+async function* readSSEDeltas(response: Response, onUsage?: (usage: TokenUsage) => void): AsyncGenerator<string> {
+  if (!response.body) throw new ParseError("服务返回了空数据");
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      // 最后一行可能不完整，留到下一轮
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        const trimmed = line.trim();
+        if (!trimmed.startsWith('data:')) continue;
+        const payload = trimmed.slice(5).trim();
+        if (payload === '[DONE]') return;
+        try {
+          const chunk = JSON.parse(payload);
+          const usage = toTokenUsage(chunk.usage);
+          if (usage) onUsage?.(usage);
+          const delta = chunk.choices?.[0]?.delta?.content;
+          if (delta) yield delta;
+        } catch (e) {
+          console.warn("Skipping malformed SSE chunk:", payload);
+        }
+      }
+    }
+  } finally {
+    // 提前退出 (中断 / break) 时释放底层连接
+    reader.cancel().catch(() => {});
+  }
+}
+
+/**
+ * OpenAI 兼容服务商工厂
+ * 反代 Gemini、DeepSeek、Ollama、llama.cpp 都是同一套协议，只有地址和能力不同
+ */
+export const createOpenAICompatibleProvider = (config: OpenAICompatibleConfig): LLMProvider => {
+
+  const postJson = async (endpoint: string, body: any, signal?: AbortSignal) => {
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (config.apiKey) {
+      headers["Authorization"] = `Bearer ${config.apiKey}`;
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(endpoint, {
+        method: "POST",
+        headers,
+        body: JSON.stringify(body),
+        signal
+      });
+    } catch (error) {
+      // 中断保持原样抛出，其余都是网络层面的失败
+      if (isAbortError(error)) throw error;
+      throw toServiceError(error);
+    }
+
+    if (!response.ok) {
+      const errData = await response.json().catch(() => ({}));
+      // 按状态码归类，界面据此给出具体提示
+      throw createHttpError(
+        response.status,
+        errData.error?.message || response.statusText,
+        parseRetryAfter(response.headers.get('Retry-After'))
+      );
+    }
+
+    return response;
+  };
+
+  const postCompletion = async (model: string, messages: LLMMessage[], options: LLMRequestOptions, stream: boolean) => {
+    if (!config.supportsVision && hasImageInput(messages)) {
+      throw new UnsupportedInputError(`${config.label} 不支持图片输入，请切换到支持识图的模型`);
+    }
+
+    const body: any = {
+      model,
+      messages,
+      stream,
+      temperature: options.temperature ?? 0.7
+    };
+
+    if (stream) {
+      // 让服务端在流末尾附上 usage，方便记账
+      body.stream_options = { include_usage: true };
+    }
+
+    if (options.jsonMode && config.supportsJsonMode) {
+      body.response_format = { type: "json_object" };
+    }
+
+    return postJson(config.endpoint, body, options.signal);
+  };
+
+  const { embeddingEndpoint, embeddingModel } = config;
+
+  return {
+    id: config.id,
+    label: config.label,
+    models: config.models,
+    supportsVision: config.supportsVision,
+    supportsJsonMode: config.supportsJsonMode,
+    maxConcurrency: config.maxConcurrency ?? 2,
+
+    isConfigured: () => !!config.endpoint && (config.requiresApiKey === false || !!config.apiKey),
+
+    chat: async (model, messages, options = {}) => {
+      try {
+        const response = await postCompletion(model, messages, options, false);
+        const data = await response.json();
+
+        // 增加空值检查，防止 crash
+        if (!data.choices || !data.choices[0] || !data.choices[0].message) {
+          throw new ParseError("服务返回了空数据");
+        }
+
+        const usage = toTokenUsage(data.usage);
+        if (usage) options.onUsage?.(usage);
+
+        return data.choices[0].message.content;
+
+      } catch (error) {
+        console.error(`[${config.id}] Service Request Failed:`, error);
+        throw error;
+      }
+    },
+
+    chatStream: async function* (model, messages, options = {}) {
+      const response = await postCompletion(model, messages, options, true);
+      yield* readSSEDeltas(response, options.onUsage);
+    },
+
+    embeddingModel,
+    embed: embeddingEndpoint && embeddingModel
+      ? async (texts, options = {}) => {
+          const response = await postJson(embeddingEndpoint, { model: embeddingModel, input: texts }, options.signal);
+          const data = await response.json();
+          if (!Array.isArray(data.data)) throw new ParseError("向量服务返回了空数据");
+          const usage = toTokenUsage(data.usage);
+          if (usage) options.onUsage?.(usage);
+          return data.data.map((d: any) => d.embedding as number[]);
+        }
+      : undefined
+  };
+};
+
+// ================= 内置服务商 =================
+
+const LOCAL_BASE_URL = (import.meta.env.VITE_LOCAL_LLM_BASE_URL || 'http://localhost:11434/v1').replace(/\/$/, '');
+
+const BUILTIN_PROVIDERS: LLMProvider[] = [
+  createOpenAICompatibleProvider({
+    id: 'proxy',
+    label: 'Gemini',
+    endpoint: '/api/proxy',
+    apiKey: import.meta.env.VITE_PROXY_API_KEY,
+    models: parseModelList(import.meta.env.VITE_PROXY_MODELS, ['[贩子死妈]gemini-3-flash-preview']),
+    supportsVision: true,
+    supportsJsonMode: true
+  }),
+  createOpenAICompatibleProvider({
+    id: 'deepseek',
+    label: 'DeepSeek',
+    endpoint: 'https://api.deepseek.com/chat/completions',
+    apiKey: import.meta.env.VITE_DEEPSEEK_API_KEY,
+    models: ['deepseek-chat', 'deepseek-reasoner'],
+    supportsVision: false,
+    supportsJsonMode: true
+  }),
+  createOpenAICompatibleProvider({
+    id: 'local',
+    label: 'Local (Ollama / llama.cpp)',
+    endpoint: `${LOCAL_BASE_URL}/chat/completions`,
+    models: parseModelList(import.meta.env.VITE_LOCAL_LLM_MODELS, ['qwen2.5:7b']),
+    supportsVision: import.meta.env.VITE_LOCAL_LLM_VISION === 'true',
+    supportsJsonMode: true,
+    // 本地推理通常一次只能跑一个请求
+    maxConcurrency: 1,
+    requiresApiKey: false,
+    embeddingEndpoint: `${LOCAL_BASE_URL}/embeddings`,
+    embeddingModel: import.meta.env.VITE_LOCAL_EMBEDDING_MODEL
+  })
+];
+
+// ================= 注册表 =================
+
+const SELECTION_STORAGE_KEY = 'scholar_cat_model_selection';
+
+const registry = new Map<string, LLMProvider>(BUILTIN_PROVIDERS.map(p => [p.id, p]));
+
+const loadSelection = (): ModelSelection => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(SELECTION_STORAGE_KEY) || 'null');
+    const provider = saved && registry.get(saved.providerId);
+    if (provider && provider.models.includes(saved.model)) return saved;
+  } catch (e) {
+    // 存储损坏时回落到默认模型
+  }
+  const fallback = BUILTIN_PROVIDERS[0];
+  return { providerId: fallback.id, model: fallback.models[0] };
+};
+
+let activeSelection: ModelSelection = loadSelection();
+
+export const registerProvider = (provider: LLMProvider) => {
+  registry.set(provider.id, provider);
+};
+
+export const getProviders = (): LLMProvider[] => Array.from(registry.values());
+
+export const getActiveSelection = (): ModelSelection => activeSelection;
+
+export const setActiveSelection = (selection: ModelSelection) => {
+  if (!registry.has(selection.providerId)) {
+    throw new Error(`Unknown provider: ${selection.providerId}`);
+  }
+  activeSelection = selection;
+  try {
+    localStorage.setItem(SELECTION_STORAGE_KEY, JSON.stringify(selection));
+  } catch (e) {
+    // localStorage 不可用时只在本次会话生效
+  }
+};
+
+export const getActiveProvider = (): LLMProvider => {
+  return registry.get(activeSelection.providerId) || BUILTIN_PROVIDERS[0];
+};
+
+const warnIfUnconfigured = (provider: LLMProvider) => {
+  if (!provider.isConfigured()) {
+    console.error(`❌ ${provider.label} 配置缺失！请在 .env 中设置对应的 API Key 和地址`);
+  }
+};
+
+/**
+ * 通过当前选中的服务商发起请求 (经调度器排队)
+ * 发出前检查预算，完成后记一笔用量
+ */
+export const callModel = async (messages: LLMMessage[], options: LLMRequestOptions = {}): Promise<string> => {
+  const provider = getActiveProvider();
+  const model = activeSelection.model;
+  warnIfUnconfigured(provider);
+
+  const record = await trackRequest({
+    providerId: provider.id,
+    model,
+    feature: options.feature ?? 'chat',
+    priority: options.priority,
+    estimatedPromptTokens: estimateMessagesTokens(messages)
+  });
+  let reported: TokenUsage | undefined;
+
+  const text = await scheduleRequest(
+    { providerId: provider.id, maxConcurrency: provider.maxConcurrency, priority: options.priority, signal: options.signal, group: options.group },
+    () => provider.chat(model, messages, { ...options, onUsage: usage => { reported = usage; } })
+  );
+  record(text, reported);
+  return text;
+};
+
+/**
+ * 流式版本：逐段产出模型回复，通过 options.signal 中断
+ * 中断时已生成的部分同样记账
+ */
+export async function* streamModel(messages: LLMMessage[], options: LLMRequestOptions = {}): AsyncGenerator<string> {
+  const provider = getActiveProvider();
+  const model = activeSelection.model;
+  warnIfUnconfigured(provider);
+
+  const priority = options.priority ?? RequestPriority.CHAT;
+  const record = await trackRequest({
+    providerId: provider.id,
+    model,
+    feature: options.feature ?? 'chat',
+    priority,
+    estimatedPromptTokens: estimateMessagesTokens(messages)
+  });
+  let reported: TokenUsage | undefined;
+  let output = '';
+
+  try {
+    for await (const delta of scheduleStream(
+      { providerId: provider.id, maxConcurrency: provider.maxConcurrency, priority, signal: options.signal, group: options.group },
+      () => provider.chatStream(model, messages, { ...options, onUsage: usage => { reported = usage; } })
+    )) {
+      output += delta;
+      yield delta;
+    }
+  } finally {
+    if (output || reported) record(output, reported);
+  }
+}
+
+/**
+ * 找一个可用的向量化服务商；优先当前选中的，其次任意已配置的
+ */
+export const getEmbeddingProvider = (): LLMProvider | undefined => {
+  const active = getActiveProvider();
+  if (active.embed && active.isConfigured()) return active;
+  return getProviders().find(p => p.embed && p.isConfigured());
+};
+
+/**
+ * 批量向量化 (经调度器排队，按后台优先级)
+ */
+export const embedTexts = async (provider: LLMProvider, texts: string[], options: LLMRequestOptions = {}): Promise<number[][]> => {
+  if (!provider.embed) throw new UnsupportedInputError(`${provider.label} 不支持向量化`);
+  const embed = provider.embed;
+  const priority = options.priority ?? RequestPriority.PREFETCH;
+
+  const record = await trackRequest({
+    providerId: provider.id,
+    model: provider.embeddingModel || provider.id,
+    feature: 'embedding',
+    priority,
+    estimatedPromptTokens: texts.reduce((sum, t) => sum + estimateTextTokens(t), 0)
+  });
+  let reported: TokenUsage | undefined;
+
+  const vectors = await scheduleRequest(
+    { providerId: provider.id, maxConcurrency: provider.maxConcurrency, priority, signal: options.signal, group: options.group },
+    () => embed(texts, { ...options, onUsage: usage => { reported = usage; } })
+  );
+  record('', reported);
+  return vectors;
+};
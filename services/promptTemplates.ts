@@ -0,0 +1,317 @@
+import { getLanguageSettings, languagePromptName, resolveSourceLanguage } from "./languages";
+
+// ================= 提示词模板 =================
+// 所有发给模型的提示词都在这里集中管理：内置模板带版本号，可以用 {{变量}} 占位；
+// 用户在设置里改过的模板存进 localStorage，随时可以恢复默认。
+// JSON 输出格式由代码通过 {{format}} 注入，避免改模板时把结构改坏。
+// 语言相关的变量 (sourceLanguage / targetLanguage / replyLanguage) 按语言设置自动填充。
+
+export type PersonaId = 'scholarCat' | 'academic' | 'concise';
+
+export type PromptTemplateId =
+  | 'chatSystem'
+  | 'summary'
+  | 'summaryChunk'
+  | 'summaryMerge'
+  | 'pageTranslation'
+  | 'pageTranslationText'
+  | 'selection'
+  | 'citation'
+  | 'equation';
+
+export interface PersonaPreset {
+  id: PersonaId;
+  label: string;
+  persona: string;    // 聊天用的人设描述，可以使用语言变量 (例如 {{replyLanguage}})
+  role: string;       // 结构化任务里的一句话角色
+  reportName: string; // 摘要报告的叫法
+}
+
+export interface PromptTemplate {
+  id: PromptTemplateId;
+  label: string;
+  version: number;
+  variables: string[];
+  template: string;
+}
+
+export interface PromptOverride {
+  template: string;
+  baseVersion: number; // 基于哪个版本的内置模板修改的
+  updatedAt: number;
+}
+
+interface PromptSettings {
+  version: number;
+  personaId: PersonaId;
+  overrides: Partial<Record<PromptTemplateId, PromptOverride>>;
+}
+
+const STORAGE_KEY = 'scholar_cat_prompt_templates';
+const SETTINGS_VERSION = 1;
+
+// ================= 内置人设 =================
+
+export const PERSONA_PRESETS: PersonaPreset[] = [
+  {
+    id: 'scholarCat',
+    label: '学术猫 (Scholar Cat)',
+    persona: `你是“Scholar Cat (学术猫)”，一只住在像素图书馆的魔法猫。
+任务：辅助主人阅读外文学术文献。
+风格：活泼可爱，句尾带 [=^..^=]，解释要用大白话和类比。`,
+    role: 'You are the pixel library guardian "Scholar Cat" (学术猫).',
+    reportName: 'Magic Item Appraisal Report'
+  },
+  {
+    id: 'academic',
+    label: '严谨学者 (Academic)',
+    persona: `你是一名严谨的学术研究助理，协助用户阅读外文学术文献。
+风格：正式、客观，使用规范的学术书面语 (formal academic {{replyLanguage}})，不使用表情、语气词或口语化的比喻。`,
+    role: 'You are a rigorous academic reviewer writing for a formal reading note.',
+    reportName: 'structured paper review'
+  },
+  {
+    id: 'concise',
+    label: '简明助手 (Concise)',
+    persona: `你是一名简洁的研究助理，协助用户阅读外文学术文献。
+风格：直接给出要点，能一句话说清就不用两句，必要时使用列表。`,
+    role: 'You are a concise research assistant. Keep every field short and factual.',
+    reportName: 'brief paper summary'
+  }
+];
+
+// ================= 内置模板 =================
+
+export const PROMPT_TEMPLATES: PromptTemplate[] = [
+  {
+    id: 'chatSystem',
+    label: '聊天人设 (Chat)',
+    version: 2,
+    variables: ['persona', 'replyLanguage'],
+    template: `{{persona}}
+规则：始终使用 {{replyLanguage}} 回答 (Always reply in {{replyLanguage}})。
+规则：如果问公式，用 LaTeX 格式输出，行内公式用 $...$，独立公式用 $$...$$。
+规则：只根据提供的文献内容回答，引用时注明页码 (例如 p.3)；文献里没有的信息要直说不知道。`
+  },
+  {
+    id: 'summary',
+    label: '论文摘要 (Summary)',
+    version: 2,
+    variables: ['role', 'reportName', 'replyLanguage', 'format', 'paper'],
+    template: `Role: {{role}}
+Task: Analyze the full content of this academic paper and generate a "{{reportName}}".
+Write every text value in {{replyLanguage}}.
+
+Input: The user has provided the parsed text of the PDF below.
+
+Output JSON ONLY with this structure:{{format}}
+
+--- BEGIN PAPER CONTENT ---
+{{paper}}
+--- END PAPER CONTENT ---`
+  },
+  {
+    id: 'summaryChunk',
+    label: '长文分段笔记 (Summary Notes)',
+    version: 2,
+    variables: ['startPage', 'endPage', 'replyLanguage', 'format', 'pages'],
+    template: `Task: You are reading pages {{startPage}}-{{endPage}} of a long academic paper. Take structured notes on this part only.
+Keep every number, dataset name and experimental finding you see. Write the notes in {{replyLanguage}}.
+
+Output JSON ONLY with this structure:{{format}}
+
+--- BEGIN PAGES ---
+{{pages}}
+--- END PAGES ---`
+  },
+  {
+    id: 'summaryMerge',
+    label: '长文合并 (Summary Merge)',
+    version: 2,
+    variables: ['role', 'reportName', 'pageCount', 'replyLanguage', 'format', 'notes'],
+    template: `Role: {{role}}
+Task: The paper below was too long to read at once, so it was read in parts and noted page by page.
+Merge these notes into one "{{reportName}}" that covers the WHOLE paper, including the experiments and conclusions near the end.
+Write every text value in {{replyLanguage}}.
+
+Output JSON ONLY with this structure:{{format}}
+
+--- BEGIN NOTES ({{pageCount}} pages) ---
+{{notes}}
+--- END NOTES ---`
+  },
+  {
+    id: 'pageTranslation',
+    label: '页面翻译 (Page Translation)',
+    version: 6,
+    variables: ['sourceLanguage', 'targetLanguage', 'format', 'terminology'],
+    template: `Analyze this image of an academic paper page written in {{sourceLanguage}}.
+1. Extract content into 'blocks': "source" is the original text, "target" its translation into {{targetLanguage}}.
+   "bbox" is the block's region on the page as [x, y, width, height], fractions of the page size from the top-left corner. For figures it covers the graphic together with its caption.
+   For tables use type "table": the caption goes in "source"/"target" and the cells in "table". Translate the headers into "headerTarget" and the words in cells; keep numbers as printed.
+   Keep in-text citations in "target" exactly as printed, e.g. [3], [1-4] or (Smith et al., 2020), with author names untranslated. Write superscript citation numbers as Unicode superscripts, e.g. ¹²˒¹⁴.
+2. Extract 'glossary' terms (3-5 terms) with their {{targetLanguage}} translation; write the definitions in {{targetLanguage}}.
+{{terminology}}
+
+Output JSON ONLY:{{format}}`
+  },
+  {
+    id: 'pageTranslationText',
+    label: '页面翻译-文本层 (Page Text)',
+    version: 7,
+    variables: ['sourceLanguage', 'targetLanguage', 'format', 'terminology', 'blocks'],
+    template: `Below are the text blocks of one page of an academic paper, extracted from the PDF text layer in reading order.
+Each block is numbered and marked as a heading or paragraph.
+1. Translate every block from {{sourceLanguage}} to {{targetLanguage}}, keeping the order. Merge or split blocks only when the extraction clearly broke a paragraph.
+   "refs" lists the numbers of the input blocks each output block comes from.
+   A block marked "joined with next page" already ends with the rest of its sentence from the next page: translate it as one complete block.
+   Keep in-text citations in "target" exactly as printed, e.g. [3], [1-4] or (Smith et al., 2020), with author names untranslated. Superscript citation numbers lose their formatting in the text layer and stick to the preceding word or punctuation (e.g. "networks.12,13"); write them as Unicode superscripts, e.g. ¹²˒¹³.
+2. Math extracted from the PDF may be garbled: for display equations use type "equation" and write clean LaTeX in "source".
+3. Tables come out of the text layer as runs of short cells: rebuild them as type "table", with the caption in "source"/"target" and the cells in "table". Translate the headers into "headerTarget" and the words in cells; keep numbers as printed.
+4. Extract 'glossary' terms (3-5 terms) with their {{targetLanguage}} translation; write the definitions in {{targetLanguage}}.
+{{terminology}}
+
+Output JSON ONLY:{{format}}
+
+--- BEGIN PAGE TEXT ---
+{{blocks}}
+--- END PAGE TEXT ---`
+  },
+  {
+    id: 'selection',
+    label: '段落翻译 (Passage)',
+    version: 3,
+    variables: ['sourceLanguage', 'targetLanguage', 'style', 'format'],
+    template: `You are a professional academic translator. Translate the following {{sourceLanguage}} passage into {{targetLanguage}}.
+Style: {{style}}
+Split the passage into sentences and pair every sentence with its translation, in order, so they can be read side by side. Keep the whole passage; do not drop or merge sentences.
+
+Output JSON ONLY:{{format}}`
+  },
+  {
+    id: 'citation',
+    label: '引用分析 (Citation)',
+    version: 4,
+    variables: ['replyLanguage', 'format'],
+    template: `用户会给出论文参考文献列表中的一条文献，以及正文中引用它的段落。
+abstract：根据给出的摘要或你对这篇文献的了解，简述它做了什么；两者都没有就写 "未知"，不要编造。
+relevance：结合引用段落，说明本文为什么在这里引用它。
+status：理解本文必须先读它时为 MUST_READ，一般背景为 NORMAL，可以跳过为 IGNORE。
+abstract 和 relevance 使用 {{replyLanguage}} 书写。
+返回 JSON:{{format}}`
+  },
+  {
+    id: 'equation',
+    label: '公式解释 (Equation)',
+    version: 3,
+    variables: ['replyLanguage', 'format'],
+    template: `解释用户给出的数学公式。用户还会给出公式前后的段落，以及论文中可能定义了这些符号的句子 (带页码)。
+1. symbols：逐个列出公式中的符号 (symbol 用 LaTeX 写)。meaning 优先采用论文自己的定义，definedAt 写出处，例如 "p.3" 或 "公式前文"；论文没有定义的符号按该领域的常见用法解释，definedAt 留空。
+2. intuition：用通俗易懂的话说明公式在做什么、为什么这样设计。
+3. example：代入简单的具体数字，一步步演示计算过程；论文给出了参数取值时优先使用。
+meaning、intuition、example 使用 {{replyLanguage}} 书写，其中的数学用 $...$ 包裹的 LaTeX。
+返回 JSON:{{format}}`
+  }
+];
+
+// ================= 存储 =================
+
+const defaultSettings = (): PromptSettings => ({ version: SETTINGS_VERSION, personaId: 'scholarCat', overrides: {} });
+
+const loadSettings = (): PromptSettings => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    if (saved && saved.version === SETTINGS_VERSION) return { ...defaultSettings(), ...saved };
+  } catch (e) {
+    // 存储损坏时回落到默认模板
+  }
+  return defaultSettings();
+};
+
+const saveSettings = (settings: PromptSettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (e) {
+    // localStorage 不可用时只在本次会话生效
+  }
+};
+
+let settings: PromptSettings = loadSettings();
+
+const getBuiltin = (id: PromptTemplateId): PromptTemplate => PROMPT_TEMPLATES.find(t => t.id === id)!;
+
+// ================= 对外接口 =================
+
+export const getPersona = (): PersonaPreset =>
+  PERSONA_PRESETS.find(p => p.id === settings.personaId) || PERSONA_PRESETS[0];
+
+export const setPersona = (id: PersonaId) => {
+  settings = { ...settings, personaId: id };
+  saveSettings(settings);
+};
+
+/**
+ * 当前生效的模板；isOutdated 表示用户改过的模板基于旧版内置模板
+ */
+export const getTemplate = (id: PromptTemplateId): { template: string; isOverridden: boolean; isOutdated: boolean } => {
+  const builtin = getBuiltin(id);
+  const override = settings.overrides[id];
+  if (!override) return { template: builtin.template, isOverridden: false, isOutdated: false };
+  return { template: override.template, isOverridden: true, isOutdated: override.baseVersion < builtin.version };
+};
+
+export const saveTemplateOverride = (id: PromptTemplateId, template: string) => {
+  const builtin = getBuiltin(id);
+  // 和默认一样就不必存成覆盖
+  const overrides = { ...settings.overrides };
+  if (template === builtin.template) {
+    delete overrides[id];
+  } else {
+    overrides[id] = { template, baseVersion: builtin.version, updatedAt: Date.now() };
+  }
+  settings = { ...settings, overrides };
+  saveSettings(settings);
+};
+
+export const resetTemplate = (id: PromptTemplateId) => {
+  const overrides = { ...settings.overrides };
+  delete overrides[id];
+  settings = { ...settings, overrides };
+  saveSettings(settings);
+};
+
+export const resetAllTemplates = () => {
+  settings = defaultSettings();
+  saveSettings(settings);
+};
+
+const fillVariables = (id: PromptTemplateId, text: string, values: Record<string, string | number>) =>
+  text.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, name: string) => {
+    if (values[name] === undefined) {
+      console.warn(`[Prompt] ${id} uses unknown variable {{${name}}}`);
+      return '';
+    }
+    return String(values[name]);
+  });
+
+/**
+ * 渲染模板：替换 {{变量}}，人设和语言相关变量自动填充
+ */
+export const renderPrompt = (id: PromptTemplateId, vars: Record<string, string | number> = {}): string => {
+  const persona = getPersona();
+  const languages = getLanguageSettings();
+  const languageValues: Record<string, string | number> = {
+    sourceLanguage: languagePromptName(resolveSourceLanguage()),
+    targetLanguage: languagePromptName(languages.target),
+    replyLanguage: languagePromptName(languages.ui)
+  };
+  const values: Record<string, string | number> = {
+    // 人设里的语言变量先填好，人设才能跟着界面语言走
+    persona: fillVariables(id, persona.persona, languageValues),
+    role: persona.role,
+    reportName: persona.reportName,
+    ...languageValues,
+    ...vars
+  };
+  return fillVariables(id, getTemplate(id).template, values);
+};
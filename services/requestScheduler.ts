@@ -0,0 +1,248 @@
+// ================= 请求调度器 =================
+// 所有模型调用都经过这里排队：按优先级出队、按服务商限制并发，
+// 遇到 429 / 5xx 时指数退避重试，并遵守服务端给出的 Retry-After。
+
+export enum RequestPriority {
+  VISIBLE_PAGE = 0, // 用户正在看的页面 / 摘要
+  CHAT = 1,         // 聊天、引用、公式等交互请求
+  PREFETCH = 2      // 后台预取
+}
+
+export interface ScheduleOptions {
+  providerId: string;
+  maxConcurrency: number;
+  priority?: RequestPriority;
+  signal?: AbortSignal;
+  group?: string; // 同一件事的请求 (例如某一页的翻译)，可以用 reprioritize 一起提速
+}
+
+/**
+ * 服务商错误上携带的重试信息 (由 llmProviders 填充)
+ */
+export interface RetryHint {
+  status?: number;
+  retryAfterMs?: number;
+}
+
+interface Waiter {
+  priority: RequestPriority;
+  group?: string;
+  seq: number;
+  start: () => void;
+}
+
+interface ProviderQueue {
+  active: number;
+  waiting: Waiter[];
+  pausedUntil: number;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+const MAX_RETRIES = 4;
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 30000;
+
+const queues = new Map<string, ProviderQueue>();
+const groupPriorities = new Map<string, RequestPriority>();
+let seqCounter = 0;
+
+const getQueue = (providerId: string): ProviderQueue => {
+  let queue = queues.get(providerId);
+  if (!queue) {
+    queue = { active: 0, waiting: [], pausedUntil: 0, timer: null };
+    queues.set(providerId, queue);
+  }
+  return queue;
+};
+
+const abortError = () => new DOMException('Request aborted', 'AbortError');
+
+// ================= 工具函数 =================
+
+export const isRetryableError = (error: unknown): boolean => {
+  const status = (error as RetryHint)?.status;
+  return status === 429 || (typeof status === 'number' && status >= 500);
+};
+
+/**
+ * 指数退避 + 抖动；服务端给了 Retry-After 时以它为准
+ */
+const computeDelay = (attempt: number, error: unknown): number => {
+  const retryAfter = (error as RetryHint)?.retryAfterMs;
+  if (typeof retryAfter === 'number' && retryAfter >= 0) {
+    return Math.min(retryAfter, MAX_DELAY_MS * 4) + Math.random() * 250;
+  }
+  const exp = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** attempt);
+  return exp / 2 + Math.random() * (exp / 2);
+};
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(abortError());
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(abortError());
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * 解析 Retry-After 头 (秒数或 HTTP 日期)
+ */
+export const parseRetryAfter = (header: string | null): number | undefined => {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  if (!Number.isNaN(date)) return Math.max(0, date - Date.now());
+  return undefined;
+};
+
+// ================= 并发槽位 =================
+
+const pump = (providerId: string, maxConcurrency: number) => {
+  const queue = getQueue(providerId);
+
+  const wait = queue.pausedUntil - Date.now();
+  if (wait > 0) {
+    if (!queue.timer) {
+      queue.timer = setTimeout(() => {
+        queue.timer = null;
+        pump(providerId, maxConcurrency);
+      }, wait);
+    }
+    return;
+  }
+
+  while (queue.active < maxConcurrency && queue.waiting.length > 0) {
+    // 优先级高的先走，同级按入队顺序
+    queue.waiting.sort((a, b) => a.priority - b.priority || a.seq - b.seq);
+    const next = queue.waiting.shift()!;
+    queue.active += 1;
+    next.start();
+  }
+};
+
+/**
+ * 排队获取一个并发槽位，返回释放函数
+ */
+const acquireSlot = (options: ScheduleOptions): Promise<() => void> => {
+  const { providerId, maxConcurrency, group, signal } = options;
+  const requested = options.priority ?? RequestPriority.CHAT;
+  const boosted = group !== undefined ? groupPriorities.get(group) : undefined;
+  const priority = boosted !== undefined ? Math.min(requested, boosted) : requested;
+  const queue = getQueue(providerId);
+
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError());
+
+    let released = false;
+    const release = () => {
+      if (released) return;
+      released = true;
+      queue.active -= 1;
+      pump(providerId, maxConcurrency);
+    };
+
+    const waiter: Waiter = {
+      priority,
+      group,
+      seq: seqCounter++,
+      start: () => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve(release);
+      }
+    };
+
+    const onAbort = () => {
+      queue.waiting = queue.waiting.filter(w => w !== waiter);
+      reject(abortError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    queue.waiting.push(waiter);
+    pump(providerId, maxConcurrency);
+  });
+};
+
+/**
+ * 限流时暂停该服务商的所有出队，避免其他请求继续撞墙
+ */
+const pauseProvider = (providerId: string, ms: number) => {
+  const queue = getQueue(providerId);
+  queue.pausedUntil = Math.max(queue.pausedUntil, Date.now() + ms);
+};
+
+// ================= 对外接口 =================
+
+/**
+ * 提升一组请求的优先级：排队中的立即生效，之后的重试和后续请求也按新的优先级
+ * (例如后台预取中的页面被用户翻到)
+ */
+export const reprioritize = (group: string, priority: RequestPriority) => {
+  const current = groupPriorities.get(group);
+  if (current !== undefined && current <= priority) return;
+  groupPriorities.set(group, priority);
+  for (const queue of queues.values()) {
+    queue.waiting.forEach(w => { if (w.group === group && w.priority > priority) w.priority = priority; });
+  }
+};
+
+/**
+ * 这组请求全部结束后调用，清掉提升记录
+ */
+export const clearPriorityGroup = (group: string) => {
+  groupPriorities.delete(group);
+};
+
+/**
+ * 调度一次普通请求
+ * 退避期间会让出槽位，这样更高优先级的请求可以插队
+ */
+export const scheduleRequest = async <T>(options: ScheduleOptions, run: () => Promise<T>): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    const release = await acquireSlot(options);
+    try {
+      return await run();
+    } catch (error) {
+      if (attempt >= MAX_RETRIES || !isRetryableError(error) || options.signal?.aborted) throw error;
+      const delay = computeDelay(attempt, error);
+      if ((error as RetryHint).retryAfterMs !== undefined) pauseProvider(options.providerId, delay);
+      console.warn(`[Scheduler] ${options.providerId} ${(error as RetryHint).status}, retry #${attempt + 1} in ${Math.round(delay)}ms`);
+      release();
+      await sleep(delay, options.signal);
+    } finally {
+      release();
+    }
+  }
+};
+
+/**
+ * 调度一次流式请求
+ * 槽位一直占到流结束；只有在还没产出任何内容时才会重试
+ */
+export async function* scheduleStream<T>(options: ScheduleOptions, open: () => AsyncGenerator<T>): AsyncGenerator<T> {
+  for (let attempt = 0; ; attempt++) {
+    const release = await acquireSlot(options);
+    let yielded = false;
+    try {
+      for await (const chunk of open()) {
+        yielded = true;
+        yield chunk;
+      }
+      return;
+    } catch (error) {
+      if (yielded || attempt >= MAX_RETRIES || !isRetryableError(error) || options.signal?.aborted) throw error;
+      const delay = computeDelay(attempt, error);
+      if ((error as RetryHint).retryAfterMs !== undefined) pauseProvider(options.providerId, delay);
+      console.warn(`[Scheduler] ${options.providerId} ${(error as RetryHint).status}, stream retry #${attempt + 1} in ${Math.round(delay)}ms`);
+      release();
+      await sleep(delay, options.signal);
+    } finally {
+      release();
+    }
+  }
+}
@@ -0,0 +1,195 @@
+import { PaperSummary, ContentBlock, GlossaryTerm, CitationInfo, EquationExplanation, EquationSymbol, BlockBox, BlockTable, AlignedSentence } from "../types";
+
+// ================= 迷你 Schema =================
+// 模型返回的 JSON 不可信：每个 schema 都会把值矫正成目标类型，
+// 同时把不合规的字段记录到 issues 里，由调用方决定是否要求模型修复。
+
+export interface Schema<T> {
+  parse: (value: unknown, path: string, issues: string[]) => T;
+}
+
+export interface ValidationResult<T> {
+  value: T;
+  issues: string[];
+  parsed: boolean; // false 表示连 JSON 都不是，value 全部来自默认值
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const string = (fallback = ''): Schema<string> => ({
+  parse: (value, path, issues) => {
+    if (typeof value === 'string') return value;
+    // 年份之类的数字直接转成字符串，不算错误
+    if (typeof value === 'number') return String(value);
+    issues.push(`${path}: expected string, got ${value === undefined ? 'nothing' : typeof value}`);
+    return fallback;
+  }
+});
+
+export const number = (fallback = 0): Schema<number> => ({
+  parse: (value, path, issues) => {
+    if (typeof value === 'number' && Number.isFinite(value)) return value;
+    if (typeof value === 'string' && value.trim() && Number.isFinite(Number(value))) return Number(value);
+    issues.push(`${path}: expected number, got ${value === undefined ? 'nothing' : typeof value}`);
+    return fallback;
+  }
+});
+
+export const oneOf = <T extends string>(values: readonly T[], fallback: T): Schema<T> => ({
+  parse: (value, path, issues) => {
+    if (typeof value === 'string' && (values as readonly string[]).includes(value)) return value as T;
+    issues.push(`${path}: expected one of ${values.join('|')}, got ${JSON.stringify(value)}`);
+    return fallback;
+  }
+});
+
+export const optional = <T>(schema: Schema<T>): Schema<T | undefined> => ({
+  parse: (value, path, issues) => value === undefined || value === null ? undefined : schema.parse(value, path, issues)
+});
+
+export const array = <T>(item: Schema<T>): Schema<T[]> => ({
+  parse: (value, path, issues) => {
+    if (!Array.isArray(value)) {
+      issues.push(`${path}: expected array`);
+      return [];
+    }
+    return value.map((v, i) => item.parse(v, `${path}[${i}]`, issues));
+  }
+});
+
+export const object = <T>(shape: { [K in keyof T]: Schema<T[K]> }): Schema<T> => ({
+  parse: (value, path, issues) => {
+    if (!isPlainObject(value)) {
+      issues.push(`${path}: expected object`);
+    }
+    const source = isPlainObject(value) ? value : {};
+    const result = {} as T;
+    for (const key of Object.keys(shape) as (keyof T)[]) {
+      result[key] = shape[key].parse(source[key as string], `${path}.${String(key)}`, issues);
+    }
+    return result;
+  }
+});
+
+/**
+ * 解析并校验模型返回的 JSON 文本
+ * JSON 本身损坏时整个结构回落到默认值
+ */
+export const validateJson = <T>(text: string, schema: Schema<T>): ValidationResult<T> => {
+  const issues: string[] = [];
+  let raw: unknown;
+  let parsed = true;
+  try {
+    raw = JSON.parse(text);
+  } catch (e) {
+    parsed = false;
+    issues.push(`$: invalid JSON (${(e as Error).message})`);
+  }
+  const value = schema.parse(raw, '$', issues);
+  return { value, issues, parsed };
+};
+
+// ================= 业务 Schema =================
+
+export const CONTENT_BLOCK_TYPES = ['paragraph', 'heading', 'list', 'equation', 'figure', 'table'] as const;
+
+export const paperSummarySchema: Schema<PaperSummary> = object<PaperSummary>({
+  title: string('未命名卷轴'),
+  tags: array(string()),
+  tldr: object({
+    painPoint: string('暂无'),
+    solution: string('暂无'),
+    effect: string('暂无')
+  }),
+  methodology: array(object({
+    step: string(),
+    desc: string()
+  })),
+  takeaways: array(string())
+});
+
+export const summaryChunkReplySchema: Schema<{ sections: string[]; keyPoints: string[]; methods: string[]; results: string[] }> = object({
+  sections: array(string()),
+  keyPoints: array(string()),
+  methods: array(string()),
+  results: array(string())
+});
+
+export const contentBlockSchema: Schema<ContentBlock> = object<ContentBlock>({
+  type: oneOf(CONTENT_BLOCK_TYPES, 'paragraph'),
+  source: string(),
+  target: string()
+});
+
+const clamp01 = (n: number) => Math.min(1, Math.max(0, n));
+
+/**
+ * 页面区域 [x, y, width, height]，按页面宽高归一化到 0..1
+ * 坐标只用于高亮定位，格式不对直接丢弃，不要求模型修复
+ */
+export const blockBoxSchema: Schema<BlockBox | undefined> = {
+  parse: (value) => {
+    if (!Array.isArray(value) || value.length !== 4 || !value.every(n => typeof n === 'number' && Number.isFinite(n))) return undefined;
+    // 有的模型习惯 0..1000 的整数坐标
+    const scale = value.some(n => n > 1) ? 1000 : 1;
+    const [x, y, width, height] = value.map(n => clamp01(n / scale));
+    if (width <= 0 || height <= 0) return undefined;
+    return { x, y, width: Math.min(width, 1 - x), height: Math.min(height, 1 - y) };
+  }
+};
+
+// 模型返回的块：文本层输入用 refs 指回输入块编号，截图输入直接给 bbox
+export interface PageBlockReply extends ContentBlock {
+  refs?: number[];
+}
+
+export const blockTableSchema: Schema<BlockTable> = object<BlockTable>({
+  header: array(string()),
+  headerTarget: array(string()),
+  rows: array(array(string()))
+});
+
+export const pageBlockReplySchema: Schema<PageBlockReply> = object<PageBlockReply>({
+  type: oneOf(CONTENT_BLOCK_TYPES, 'paragraph'),
+  source: string(),
+  target: string(),
+  table: optional(blockTableSchema),
+  bbox: blockBoxSchema,
+  refs: optional(array(number()))
+});
+
+export const glossaryTermSchema: Schema<GlossaryTerm> = object<GlossaryTerm>({
+  term: string(),
+  translation: optional(string()),
+  definition: string()
+});
+
+export const pageTranslationReplySchema: Schema<{ blocks: PageBlockReply[]; glossary: GlossaryTerm[] }> = object({
+  blocks: array(pageBlockReplySchema),
+  glossary: array(glossaryTermSchema)
+});
+
+export const passageTranslationReplySchema: Schema<{ sentences: AlignedSentence[] }> = object({
+  sentences: array(object<AlignedSentence>({
+    source: string(),
+    target: string()
+  }))
+});
+
+export const citationInfoSchema: Schema<CitationInfo> = object<CitationInfo>({
+  id: string(),
+  abstract: string('未知'),
+  relevance: string(),
+  status: oneOf(['MUST_READ', 'NORMAL', 'IGNORE'] as const, 'NORMAL')
+});
+
+export const equationExplanationReplySchema: Schema<Omit<EquationExplanation, 'equation'>> = object({
+  symbols: array(object<EquationSymbol>({
+    symbol: string(),
+    meaning: string(),
+    definedAt: string()
+  })),
+  intuition: string(),
+  example: string()
+});
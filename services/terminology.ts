@@ -0,0 +1,169 @@
+import { GlossaryTerm, TermEntry, TermLanguages } from "../types";
+import { getAllTerms, getTermsByField, deleteTerms, updateFieldTerms, updateTermEntries } from "../utils/storage";
+
+// ================= 术语库 =================
+// 每页翻译产出的 glossary 自动收集为候选术语；用户审核通过的术语
+// 会注入页面翻译提示词，保证同一术语在不同页面、不同论文里译法一致。
+// 译名只对收集时的语言对有效 (例如 en → zh 的译名不能用于 en → de)。
+
+export const GENERAL_FIELD = 'general';
+
+const FIELD_STORAGE_KEY = 'scholar_cat_term_field';
+
+// 单页提示词里最多注入的术语数，避免术语表挤占正文
+const MAX_PROMPT_TERMS = 40;
+
+export const normalizeTerm = (term: string) => term.trim().toLowerCase().replace(/\s+/g, ' ');
+
+export const languagePairKey = (languages: TermLanguages) => `${languages.source}-${languages.target}`;
+
+export const termId = (field: string, languages: TermLanguages, term: string) =>
+  `${field}:${languagePairKey(languages)}:${normalizeTerm(term)}`;
+
+const isSamePair = (a: TermLanguages, b: TermLanguages) => languagePairKey(a) === languagePairKey(b);
+
+const matchesTerm = (entry: TermEntry, normalized: string) =>
+  normalizeTerm(entry.term) === normalized || entry.aliases.some(a => normalizeTerm(a) === normalized);
+
+// ================= 当前领域 =================
+
+export const getActiveField = (): string => {
+  try {
+    return localStorage.getItem(FIELD_STORAGE_KEY) || GENERAL_FIELD;
+  } catch (e) {
+    return GENERAL_FIELD;
+  }
+};
+
+export const setActiveField = (field: string) => {
+  try {
+    localStorage.setItem(FIELD_STORAGE_KEY, field.trim() || GENERAL_FIELD);
+  } catch (e) {
+    // localStorage 不可用时只在本次会话生效
+  }
+};
+
+// ================= 收集 =================
+
+/**
+ * 把一页的 glossary 并入术语库 (当前领域、这一页的语言对)
+ * 已审核的术语只累计出现次数，不会被模型的新译法覆盖
+ */
+export const collectGlossaryTerms = async (fingerprint: string, glossary: GlossaryTerm[], languages: TermLanguages) => {
+  if (glossary.length === 0) return;
+  const field = getActiveField();
+
+  // 在同一个事务里读出再写回：全卷任务并发翻译的两页可能收集到同一个术语
+  await updateFieldTerms(field, terms => {
+    const existing = terms.filter(e => isSamePair(e.languages, languages));
+    const touched = new Map<string, TermEntry>();
+
+    for (const item of glossary) {
+      const normalized = normalizeTerm(item.term);
+      if (!normalized) continue;
+      const seen = Array.from(touched.values()).find(e => matchesTerm(e, normalized));
+      const current = seen || existing.find(e => matchesTerm(e, normalized));
+      if (current) {
+        touched.set(current.id, {
+          ...current,
+          translation: current.translation || item.translation || '',
+          definition: current.definition || item.definition,
+          count: seen ? current.count : current.count + 1, // once per page
+          fingerprints: current.fingerprints.includes(fingerprint) ? current.fingerprints : [...current.fingerprints, fingerprint],
+          updatedAt: Date.now()
+        });
+      } else {
+        const entry: TermEntry = {
+          id: termId(field, languages, item.term),
+          term: item.term.trim(),
+          translation: item.translation || '',
+          definition: item.definition,
+          field,
+          languages,
+          status: 'candidate',
+          aliases: [],
+          count: 1,
+          fingerprints: [fingerprint],
+          updatedAt: Date.now()
+        };
+        touched.set(entry.id, entry);
+      }
+    }
+
+    return Array.from(touched.values());
+  });
+};
+
+// ================= 管理 =================
+
+export const listTerms = async (): Promise<TermEntry[]> => {
+  const terms = await getAllTerms();
+  return terms.sort((a, b) => b.count - a.count || a.term.localeCompare(b.term));
+};
+
+// 以库里的最新记录为准打补丁，不覆盖打开术语库之后收集到的次数和来源；词条已被删除时返回 undefined
+export const updateTerm = async (entry: TermEntry, patch: Partial<Pick<TermEntry, 'translation' | 'definition' | 'status'>>) => {
+  const [next]: (TermEntry | undefined)[] = await updateTermEntries([entry.id], ([stored]) => ({
+    put: stored ? [{ ...stored, ...patch, updatedAt: Date.now() }] : [],
+    remove: []
+  }));
+  return next;
+};
+
+export const removeTerms = (ids: string[]) => deleteTerms(ids);
+
+const combineTerms = (target: TermEntry, others: TermEntry[]): TermEntry => {
+  const aliases = new Set(target.aliases);
+  for (const source of others) {
+    [source.term, ...source.aliases].forEach(a => {
+      if (normalizeTerm(a) !== normalizeTerm(target.term)) aliases.add(a);
+    });
+  }
+  return {
+    ...target,
+    translation: target.translation || others.find(s => s.translation)?.translation || '',
+    definition: target.definition || others.find(s => s.definition)?.definition || '',
+    aliases: Array.from(aliases),
+    count: others.reduce((sum, s) => sum + s.count, target.count),
+    fingerprints: Array.from(new Set([...target.fingerprints, ...others.flatMap(s => s.fingerprints)])),
+    updatedAt: Date.now()
+  };
+};
+
+/**
+ * 把若干词条合并进 target：拼写并入 aliases，出现次数和来源论文累加
+ * 语言对不同的词条不合并；合并用的是库里的最新记录
+ */
+export const mergeTerms = async (target: TermEntry, sources: TermEntry[]) => {
+  const ids = [target.id, ...sources.map(s => s.id).filter(id => id !== target.id)];
+  await updateTermEntries(ids, stored => {
+    const current = stored.find(t => t.id === target.id);
+    const others = current ? stored.filter(s => s.id !== current.id && isSamePair(s.languages, current.languages)) : [];
+    if (!current || others.length === 0) return { put: [], remove: [] };
+    return { put: [combineTerms(current, others)], remove: others.map(s => s.id) };
+  });
+};
+
+// ================= 注入提示词 =================
+
+/**
+ * 当前领域 + 通用领域里、这个语言对已审核的术语；给了页面文本时只保留本页出现过的
+ */
+export const getEnforcedTerms = async (languages: TermLanguages, pageText?: string): Promise<TermEntry[]> => {
+  const field = getActiveField();
+  const fields = field === GENERAL_FIELD ? [GENERAL_FIELD] : [field, GENERAL_FIELD];
+  const terms = (await Promise.all(fields.map(getTermsByField))).flat()
+    .filter(t => t.status === 'approved' && t.translation && isSamePair(t.languages, languages));
+
+  const text = pageText ? normalizeTerm(pageText) : null;
+  const relevant = text
+    ? terms.filter(t => [t.term, ...t.aliases].some(a => text.includes(normalizeTerm(a))))
+    : terms;
+  return relevant.sort((a, b) => b.count - a.count).slice(0, MAX_PROMPT_TERMS);
+};
+
+export const formatTermsForPrompt = (terms: TermEntry[]): string => {
+  if (terms.length === 0) return '';
+  const lines = terms.map(t => `- ${[t.term, ...t.aliases].join(' / ')} → ${t.translation}`);
+  return `Use these approved translations for the following terms, consistently in every block:\n${lines.join('\n')}`;
+};
@@ -0,0 +1,186 @@
+import { UsageFeature, UsageRecord } from "../types";
+import { addUsageRecord, getUsageRecords } from "../utils/storage";
+import { RequestPriority } from "./requestScheduler";
+import { BudgetError } from "./errors";
+import { LLMMessage, TokenUsage } from "./llmProviders";
+
+// ================= 用量记账 =================
+// 每次模型响应都记一笔：优先用服务端返回的 usage，没有就按字符数估算；
+// 按当前打开的论文 (fingerprint) 和功能归类，供设置里的用量面板和预算使用。
+
+export interface UsageBudget {
+  paperTokenLimit: number | null;    // 单篇论文累计上限，超出后暂停后台预取
+  confirmAboveTokens: number | null; // 单次请求预计超过这个数时先询问
+}
+
+export interface ExpensiveCallInfo {
+  feature: UsageFeature;
+  model: string;
+  estimatedTokens: number;
+  estimatedCost: number | null;
+}
+
+export interface TrackedRequest {
+  providerId: string;
+  model: string;
+  feature: UsageFeature;
+  priority?: RequestPriority;
+  estimatedPromptTokens: number;
+}
+
+const BUDGET_STORAGE_KEY = 'scholar_cat_usage_budget';
+
+// 美元 / 百万 Token (输入, 输出)；反代的实际价格以服务商为准，这里只用来估算
+const MODEL_PRICING: { pattern: RegExp; input: number; output: number }[] = [
+  { pattern: /gemini-3-pro/i, input: 2, output: 12 },
+  { pattern: /gemini-3-flash/i, input: 0.5, output: 3 },
+  { pattern: /gemini-2\.5-pro/i, input: 1.25, output: 10 },
+  { pattern: /gemini-2\.5-flash/i, input: 0.3, output: 2.5 },
+  { pattern: /deepseek-(chat|reasoner)/i, input: 0.28, output: 0.42 }
+];
+
+// 图片按一张截图约 1000 Token 估算；PDF 按每页约 50KB、每页约 800 Token 估算
+const IMAGE_TOKEN_ESTIMATE = 1000;
+const PDF_BYTES_PER_PAGE = 50_000;
+const PDF_TOKENS_PER_PAGE = 800;
+
+export const USAGE_FEATURE_LABELS: Record<UsageFeature, string> = {
+  summary: '摘要',
+  pageTranslation: '页面翻译',
+  chat: '聊天',
+  citation: '引用分析',
+  equation: '公式解释',
+  selection: '段落翻译',
+  embedding: '向量检索'
+};
+
+let activePaper: string | null = null;
+let activePaperTokens = 0;
+let confirmHandler: ((info: ExpensiveCallInfo) => boolean | Promise<boolean>) | null = null;
+
+// ================= 估算 =================
+
+/**
+ * 粗略估算文本 Token 数：中日文约 1 字 1 Token，其余约 4 字符 1 Token
+ */
+export const estimateTextTokens = (text: string): number => {
+  const cjk = (text.match(/[\u3040-\u30ff\u3400-\u9fff\uff00-\uffef]/g) || []).length;
+  return cjk + Math.ceil((text.length - cjk) / 4);
+};
+
+const estimateImageTokens = (url: string): number => {
+  if (!url.startsWith('data:application/pdf')) return IMAGE_TOKEN_ESTIMATE;
+  const bytes = (url.length - url.indexOf(',') - 1) * 0.75;
+  return Math.max(1, Math.ceil(bytes / PDF_BYTES_PER_PAGE)) * PDF_TOKENS_PER_PAGE;
+};
+
+export const estimateMessagesTokens = (messages: LLMMessage[]): number =>
+  messages.reduce((sum, message) => {
+    if (typeof message.content === 'string') return sum + estimateTextTokens(message.content);
+    return sum + message.content.reduce((partSum, part) =>
+      partSum + (part.type === 'text' ? estimateTextTokens(part.text) : estimateImageTokens(part.image_url.url)), 0);
+  }, 0);
+
+/**
+ * 按模型单价估算费用 (美元)；本地模型免费，未知模型返回 null
+ */
+export const estimateCost = (providerId: string, model: string, promptTokens: number, completionTokens: number): number | null => {
+  if (providerId === 'local') return 0;
+  const price = MODEL_PRICING.find(p => p.pattern.test(model));
+  if (!price) return null;
+  return (promptTokens * price.input + completionTokens * price.output) / 1_000_000;
+};
+
+// ================= 预算 =================
+
+export const getUsageBudget = (): UsageBudget => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(BUDGET_STORAGE_KEY) || 'null');
+    if (saved) return { paperTokenLimit: saved.paperTokenLimit ?? null, confirmAboveTokens: saved.confirmAboveTokens ?? null };
+  } catch (e) {
+    // 存储损坏时视为未设置预算
+  }
+  return { paperTokenLimit: null, confirmAboveTokens: null };
+};
+
+export const setUsageBudget = (budget: UsageBudget) => {
+  try {
+    localStorage.setItem(BUDGET_STORAGE_KEY, JSON.stringify(budget));
+  } catch (e) {
+    // localStorage 不可用时只在本次会话生效
+  }
+};
+
+/**
+ * 切换当前论文，并载入它的累计用量 (用于预算判断)
+ */
+export const setUsagePaper = async (fingerprint: string | null) => {
+  activePaper = fingerprint;
+  activePaperTokens = 0;
+  if (!fingerprint) return;
+  const records = await getUsageRecords(fingerprint);
+  // 加载期间可能又切换了论文
+  if (activePaper !== fingerprint) return;
+  activePaperTokens += records.reduce((sum, r) => sum + r.promptTokens + r.completionTokens, 0);
+};
+
+export const getActivePaperTokens = () => activePaperTokens;
+
+/**
+ * 当前论文超出预算时暂停后台预取
+ */
+export const isPrefetchPaused = (): boolean => {
+  const { paperTokenLimit } = getUsageBudget();
+  return !!activePaper && paperTokenLimit !== null && activePaperTokens >= paperTokenLimit;
+};
+
+/**
+ * 注册高消耗请求的确认回调 (由界面提供，返回 false 表示取消)
+ */
+export const setExpensiveCallConfirm = (handler: typeof confirmHandler) => {
+  confirmHandler = handler;
+};
+
+// ================= 记账 =================
+
+/**
+ * 请求发出前检查预算，通过后返回记账函数
+ * 记账函数在响应结束时调用：传入输出文本和服务端上报的 usage (如有)
+ */
+export const trackRequest = async (request: TrackedRequest): Promise<(output: string, reported?: TokenUsage) => void> => {
+  const { providerId, model, feature, priority, estimatedPromptTokens } = request;
+  const fingerprint = activePaper;
+
+  if (priority === RequestPriority.PREFETCH && isPrefetchPaused()) {
+    throw new BudgetError('本卷轴的 Token 预算已用完，后台预取已暂停。可以在设置里调高预算。');
+  }
+
+  const { confirmAboveTokens } = getUsageBudget();
+  if (confirmHandler && confirmAboveTokens !== null && estimatedPromptTokens >= confirmAboveTokens) {
+    const ok = await confirmHandler({
+      feature,
+      model,
+      estimatedTokens: estimatedPromptTokens,
+      estimatedCost: estimateCost(providerId, model, estimatedPromptTokens, 0)
+    });
+    if (!ok) throw new BudgetError('已取消这次高消耗请求。');
+  }
+
+  return (output, reported) => {
+    const promptTokens = reported?.promptTokens ?? estimatedPromptTokens;
+    const completionTokens = reported?.completionTokens ?? estimateTextTokens(output);
+    const record: UsageRecord = {
+      fingerprint,
+      feature,
+      providerId,
+      model,
+      promptTokens,
+      completionTokens,
+      estimated: !reported,
+      cost: estimateCost(providerId, model, promptTokens, completionTokens),
+      at: Date.now()
+    };
+    if (fingerprint && fingerprint === activePaper) activePaperTokens += promptTokens + completionTokens;
+    addUsageRecord(record).catch(e => console.warn("[Usage] Failed to persist usage record:", e));
+  };
+};
@@ -0,0 +1,51 @@
+const STORAGE_KEY = 'scholar_cat_validation_log';
+const MAX_RECENT = 50;
+
+export type ValidationStage = 'initial' | 'repair';
+
+export interface ValidationFailure {
+  feature: string;
+  stage: ValidationStage;
+  issues: string[];
+  at: number;
+}
+
+export interface ValidationLog {
+  // feature -> { initial: n, repair: n }
+  counts: Record<string, Record<ValidationStage, number>>;
+  recent: ValidationFailure[];
+}
+
+const emptyLog = (): ValidationLog => ({ counts: {}, recent: [] });
+
+export const getValidationLog = (): ValidationLog => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null') || emptyLog();
+  } catch (e) {
+    return emptyLog();
+  }
+};
+
+/**
+ * 记录一次模型 JSON 校验失败
+ * stage = 'initial' 表示首次回复不合规，'repair' 表示修复后仍不合规 (最终用默认值兜底)
+ */
+export const recordValidationFailure = (feature: string, stage: ValidationStage, issues: string[]) => {
+  console.warn(`[Schema] ${feature} (${stage}) failed validation:`, issues);
+
+  const log = getValidationLog();
+  const counts = log.counts[feature] || { initial: 0, repair: 0 };
+  counts[stage] += 1;
+  log.counts[feature] = counts;
+  log.recent = [{ feature, stage, issues: issues.slice(0, 10), at: Date.now() }, ...log.recent].slice(0, MAX_RECENT);
+
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(log));
+  } catch (e) {
+    // 统计数据丢了也不影响主流程
+  }
+};
+
+export const clearValidationLog = () => {
+  localStorage.removeItem(STORAGE_KEY);
+};
@@ -3,6 +3,8 @@ export interface ChatMessage {
   role: 'user' | 'model';
   text: string;
   isError?: boolean;
+  isStreaming?: boolean; // Still receiving tokens
+  isStopped?: boolean;   // Aborted by the user, text is partial
 }
 
 export interface PaperSummary {
@@ -20,6 +22,22 @@ export interface PaperSummary {
   takeaways: string[]; // Loot
 }
 
+// Intermediate result of summarizing one window of pages (map step)
+export interface SummaryChunk {
+  startPage: number;
+  endPage: number;
+  sections: string[];
+  keyPoints: string[];
+  methods: string[];
+  results: string[];
+}
+
+export interface SummaryProgress {
+  stage: 'map' | 'reduce';
+  done: number;
+  total: number;
+}
+
 export interface PaperFile {
   name: string;
   url: string; // Blob URL for display
@@ -39,29 +57,147 @@ export enum SidebarTab {
   NOTES = 'NOTES'
 }
 
+// Normalized to the page: 0..1, origin at the top-left like the rendered canvas
+export interface BlockBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface BlockTable {
+  header: string[];       // column headers as printed
+  headerTarget: string[]; // translated column headers
+  rows: string[][];       // cells: words translated, numbers kept as printed
+}
+
 export interface ContentBlock {
-  type: 'paragraph' | 'heading' | 'list' | 'equation' | 'figure';
-  en: string;
-  cn: string;
+  type: 'paragraph' | 'heading' | 'list' | 'equation' | 'figure' | 'table';
+  source: string; // original text (LaTeX for equations, the caption for figures and tables)
+  target: string; // translation
+  table?: BlockTable; // cells of a 'table' block
+  bbox?: BlockBox; // region on the PDF page; missing on older cached pages
+  continuesOnNextPage?: boolean; // source includes the end of the sentence from the next page
 }
 
 export interface GlossaryTerm {
   term: string;
+  translation?: string; // preferred rendering in the target language; missing on older cached pages
+  definition: string;
+}
+
+// Language codes of a translation direction, e.g. en → zh
+export interface TermLanguages {
+  source: string;
+  target: string;
+}
+
+// One entry of the cross-paper terminology base
+export interface TermEntry {
+  id: string; // `${field}:${source}-${target}:${normalized term}`
+  term: string;
+  translation: string;
   definition: string;
+  field: string; // e.g. "general", "CV", "NLP"
+  languages: TermLanguages; // the translation is only valid for this pair
+  status: 'candidate' | 'approved'; // only approved terms are enforced in prompts
+  aliases: string[]; // other spellings merged into this entry
+  count: number; // pages the term was collected from
+  fingerprints: string[]; // papers it appeared in
+  updatedAt: number;
+}
+
+export interface BlockRevision {
+  target: string;
+  author: 'model' | 'user';
+  at: number;
+}
+
+// A user's correction of one block, keyed by its normalized source text so it survives a refresh
+export interface BlockEdit {
+  target: string;
+  locked: boolean; // refreshes never replace this block
+  history: BlockRevision[]; // oldest first; the first entry is the model's original text
 }
 
 export interface PageTranslation {
   pageNumber: number;
   blocks: ContentBlock[];
   glossary: GlossaryTerm[];
+  source?: 'text' | 'image'; // text layer vs. page screenshot; missing on older cached pages (image)
+  continuesFromPreviousPage?: boolean; // the opening half-sentence is translated with the previous page
+  languages?: { source: string; target: string }; // language codes, e.g. en → zh
+  edits?: Record<string, BlockEdit>; // stored beside the model output, attached when read
 }
 
-export interface CitationInfo {
+export type TranslationStyle = 'literal' | 'fluent' | 'academic';
+
+export interface AlignedSentence {
+  source: string;
+  target: string;
+}
+
+// One run of the Translate tab, kept per paper
+export interface PassageTranslation {
   id: string;
+  fingerprint: string;
+  source: string;
+  style: TranslationStyle;
+  sentences: AlignedSentence[];
+  languages: { source: string; target: string };
+  pageNumber?: number; // page the passage was selected from
+  createdAt: number;
+}
+
+// One entry of the paper's bibliography, parsed locally from the extracted text
+export interface Reference {
+  label: string; // how the text cites it: "12" in numbered lists, "Smith 2020" in author-year lists
+  raw: string; // the entry as printed
+  authors: string[];
+  title: string;
+  venue: string;
+  year: string;
+  doi?: string;
+  arxivId?: string;
+  note?: CitationInfo; // model-written note, only generated on request
+  status?: CitationStatus; // set by the reader in the Oracle; MUST_READ entries form the reading list
+}
+
+export type CitationStatus = 'MUST_READ' | 'NORMAL' | 'IGNORE';
+
+// A record imported from a BibTeX or RIS file; authoritative metadata for matching references
+export interface BibliographyEntry {
+  id: string; // `${source}|doi:${doi}` or `${source}|title:${normalized title}:${year}`, so re-imports replace
   title: string;
+  authors: string[];
+  venue: string;
   year: string;
-  abstract: string;
-  status: 'MUST_READ' | 'NORMAL' | 'IGNORE';
+  doi?: string;
+  arxivId?: string;
+  abstract?: string;
+  source: string; // file it was imported from
+  importedAt: number;
+}
+
+export interface CitationInfo {
+  id: string; // label of the reference
+  abstract: string; // what the cited work is about
+  relevance: string; // why the paper cites it at this point
+  status: CitationStatus; // the model's suggestion
+}
+
+export interface EquationSymbol {
+  symbol: string; // LaTeX
+  meaning: string;
+  definedAt: string; // where the paper defines it (e.g. "p.3"); empty when it never does
+}
+
+// Structured Magic Lens output; text fields may contain $...$ math
+export interface EquationExplanation {
+  equation: string;
+  symbols: EquationSymbol[];
+  intuition: string;
+  example: string; // worked example with concrete numbers
 }
 
 export interface AppearanceSettings {
@@ -75,3 +211,18 @@ export interface Note {
   text: string;
   date: string;
 }
+
+export type UsageFeature = 'summary' | 'pageTranslation' | 'chat' | 'citation' | 'equation' | 'selection' | 'embedding';
+
+export interface UsageRecord {
+  id?: number;
+  fingerprint: string | null; // null when no paper is open (e.g. the Translate tab)
+  feature: UsageFeature;
+  providerId: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  estimated: boolean; // true when the response carried no `usage` field
+  cost: number | null; // USD, null when the model has no known price
+  at: number;
+}
@@ -0,0 +1,280 @@
+import { BibliographyEntry, Reference } from '../types';
+import { authorSurname } from './references';
+
+// Reference-manager formats (BibTeX, RIS): export of the reading list, import of
+// curated libraries, and matching of parsed references against both.
+
+export type BibliographyFormat = 'bibtex' | 'ris';
+
+export const BIBLIOGRAPHY_EXTENSIONS: Record<BibliographyFormat, string> = {
+  bibtex: 'bib',
+  ris: 'ris'
+};
+
+const MIN_TITLE_MATCH = 12;
+const MIN_TITLE_SIMILARITY = 0.85;
+const TITLE_STOPWORDS = new Set(['a', 'an', 'the', 'on', 'of', 'for', 'in', 'to', 'and', 'with', 'towards', 'toward']);
+const PROCEEDINGS = /\b(?:proc\.?|proceedings|conference|conf\.?|workshop|symposium|meeting|advances in)\b|\b(?:NeurIPS|NIPS|ICML|ICLR|CVPR|ICCV|ECCV|ACL|EMNLP|NAACL|AAAI|IJCAI|KDD|SIGIR|WWW)\b/i;
+
+// Lowercase letters and digits only, so punctuation and accents don't break a match
+export const normalizeTitle = (title: string) =>
+  title.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '');
+
+// Whether two titles name the same work (one may carry a subtitle the other lacks)
+export const isSameTitle = (a: string, b: string) => {
+  const [x, y] = [normalizeTitle(a), normalizeTitle(b)];
+  if (x.length < MIN_TITLE_MATCH || y.length < MIN_TITLE_MATCH) return false;
+  return x === y || x.startsWith(y) || y.startsWith(x);
+};
+
+// One key per work across papers: DOI first, then the title
+export const referenceKey = (reference: Reference) =>
+  reference.doi?.toLowerCase() || normalizeTitle(reference.title) || normalizeTitle(reference.raw);
+
+type EntryKind = 'article' | 'inproceedings' | 'misc';
+
+const entryKind = (reference: Reference): EntryKind =>
+  !reference.venue || /^arXiv\b/i.test(reference.venue) ? 'misc'
+  : PROCEEDINGS.test(reference.venue) ? 'inproceedings'
+  : 'article';
+
+// ================= BibTeX =================
+
+const escapeBibtex = (text: string) => text.replace(/([{}%&$#_])/g, '\\$1');
+
+// "vaswani2017attention", made unique with a letter suffix
+const citationKeys = (references: Reference[]) => {
+  const used = new Map<string, number>();
+  return references.map(r => {
+    const surname = r.authors.length > 0 ? normalizeTitle(authorSurname(r.authors[0])).replace(/[^a-z]/g, '') : '';
+    const word = r.title.split(/\s+/).map(normalizeTitle).find(w => w && !TITLE_STOPWORDS.has(w)) || '';
+    const base = `${surname || 'ref'}${r.year}${word}`;
+    const count = used.get(base) ?? 0;
+    used.set(base, count + 1);
+    return count === 0 ? base : `${base}${String.fromCharCode(96 + count)}`;
+  });
+};
+
+const toBibtex = (references: Reference[]) => {
+  const keys = citationKeys(references);
+  return references.map((r, i) => {
+    const kind = entryKind(r);
+    const fields: [string, string | undefined][] = [
+      ['author', r.authors.join(' and ')],
+      ['title', r.title || r.raw],
+      [kind === 'inproceedings' ? 'booktitle' : 'journal', kind === 'misc' ? undefined : r.venue],
+      ['year', r.year],
+      ['doi', r.doi],
+      ['eprint', r.arxivId],
+      ['archivePrefix', r.arxivId && 'arXiv']
+    ];
+    const body = fields
+      .filter((field): field is [string, string] => !!field[1])
+      .map(([name, value]) => `  ${name} = {${escapeBibtex(value)}}`)
+      .join(',\n');
+    return `@${kind}{${keys[i]},\n${body}\n}`;
+  }).join('\n\n') + '\n';
+};
+
+// ================= RIS =================
+
+const RIS_TYPES: Record<EntryKind, string> = { article: 'JOUR', inproceedings: 'CONF', misc: 'GEN' };
+
+const toRis = (references: Reference[]) =>
+  references.map(r => [
+    `TY  - ${RIS_TYPES[entryKind(r)]}`,
+    ...r.authors.map(a => `AU  - ${a}`),
+    `TI  - ${r.title || r.raw}`,
+    r.venue && `T2  - ${r.venue}`,
+    r.year && `PY  - ${r.year}`,
+    r.doi && `DO  - ${r.doi}`,
+    r.arxivId && `UR  - https://arxiv.org/abs/${r.arxivId}`,
+    'ER  - '
+  ].filter(Boolean).join('\r\n')).join('\r\n\r\n') + '\r\n';
+
+export const buildBibliography = (references: Reference[], format: BibliographyFormat): Blob =>
+  format === 'bibtex'
+    ? new Blob([toBibtex(references)], { type: 'application/x-bibtex;charset=utf-8' })
+    : new Blob([toRis(references)], { type: 'application/x-research-info-systems;charset=utf-8' });
+
+// ================= Import =================
+
+// Combining marks for LaTeX accent commands: \"o → ö, \'e → é, \c{c} → ç
+const LATEX_ACCENTS: Record<string, string> = {
+  '"': '\u0308', "'": '\u0301', '`': '\u0300', '^': '\u0302', '~': '\u0303', '=': '\u0304',
+  '.': '\u0307', 'c': '\u0327', 'u': '\u0306', 'v': '\u030c', 'H': '\u030b'
+};
+
+const cleanLatex = (text: string) =>
+  text
+    .replace(/\\([."'`^~=]|[cuvH](?=[{\s]))\s*\{?\\?([a-zA-Z])\}?/g, (_, accent: string, letter: string) => (letter + LATEX_ACCENTS[accent]).normalize('NFC'))
+    .replace(/\\ss\b/g, 'ß').replace(/\\(?:o|O|ae|AE|aa|AA)\b/g, m => ({ '\\o': 'ø', '\\O': 'Ø', '\\ae': 'æ', '\\AE': 'Æ', '\\aa': 'å', '\\AA': 'Å' }[m] || m))
+    .replace(/\\([&%$#_{}])/g, '$1')
+    .replace(/\\[a-zA-Z]+\*?\s*/g, '')
+    .replace(/[{}]/g, '')
+    .replace(/---/g, '—').replace(/--/g, '–')
+    .replace(/~/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+// Scoped to the source file: a work listed in two files is stored once per file,
+// so removing or re-importing one file leaves the other's record alone
+const entryId = (source: string, title: string, year: string, doi?: string) =>
+  `${source}|${doi ? `doi:${doi.toLowerCase()}` : `title:${normalizeTitle(title)}:${year}`}`;
+
+const ARXIV_ID = /(\d{4}\.\d{4,5})(?:v\d+)?/;
+
+const toEntry = (fields: {
+  title?: string; authors: string[]; venue?: string; year?: string; doi?: string; arxivId?: string; abstract?: string
+}, source: string, importedAt: number): BibliographyEntry | null => {
+  const title = fields.title?.trim();
+  if (!title) return null;
+  const year = fields.year?.match(/\d{4}/)?.[0] || '';
+  const doi = fields.doi?.trim().replace(/^https?:\/\/(?:dx\.)?doi\.org\//i, '') || undefined;
+  return {
+    id: entryId(source, title, year, doi),
+    title,
+    authors: fields.authors.filter(Boolean),
+    venue: fields.venue?.trim() || '',
+    year,
+    ...(doi ? { doi } : {}),
+    ...(fields.arxivId ? { arxivId: fields.arxivId } : {}),
+    ...(fields.abstract?.trim() ? { abstract: fields.abstract.trim() } : {}),
+    source,
+    importedAt
+  };
+};
+
+// Reads one braced or quoted BibTeX value starting at `start`; returns it with the index after it
+const readBibtexValue = (body: string, start: number): [string, number] => {
+  const open = body[start];
+  if (open !== '{' && open !== '"') {
+    const end = body.slice(start).search(/[,}]|$/);
+    return [body.slice(start, start + end).trim(), start + end];
+  }
+  let depth = 0;
+  for (let i = start; i < body.length; i++) {
+    const c = body[i];
+    if (c === '\\') { i++; continue; }
+    if (c === '{') depth++;
+    else if (c === '}') depth--;
+    if ((open === '{' && depth === 0) || (open === '"' && c === '"' && i > start && depth === 0)) {
+      return [body.slice(start + 1, i), i + 1];
+    }
+  }
+  return [body.slice(start + 1), body.length];
+};
+
+const parseBibtexFields = (body: string): Record<string, string> => {
+  const fields: Record<string, string> = {};
+  const name = /([A-Za-z][\w-]*)\s*=\s*/g;
+  let m: RegExpExecArray | null;
+  while ((m = name.exec(body))) {
+    const [value, next] = readBibtexValue(body, name.lastIndex);
+    fields[m[1].toLowerCase()] = value;
+    name.lastIndex = next;
+  }
+  return fields;
+};
+
+const parseBibtex = (text: string, source: string, importedAt: number): BibliographyEntry[] => {
+  const entries: BibliographyEntry[] = [];
+  const header = /@(\w+)\s*\{/g;
+  let m: RegExpExecArray | null;
+  while ((m = header.exec(text))) {
+    const [body, next] = readBibtexValue(text, header.lastIndex - 1);
+    header.lastIndex = next;
+    if (['comment', 'string', 'preamble'].includes(m[1].toLowerCase())) continue;
+    const fields = parseBibtexFields(body.slice(body.indexOf(',') + 1));
+    const clean = (key: string) => fields[key] !== undefined ? cleanLatex(fields[key]) : undefined;
+    const arxiv = (fields.archiveprefix?.toLowerCase() === 'arxiv' ? fields.eprint : undefined) || fields.url?.match(/arxiv\.org\/(?:abs|pdf)\/([^\s}]+)/)?.[1];
+    const entry = toEntry({
+      title: clean('title'),
+      authors: (clean('author') || '').split(/\s+and\s+/),
+      venue: clean('journal') || clean('booktitle') || clean('publisher') || clean('howpublished'),
+      year: fields.year || fields.date,
+      doi: clean('doi'),
+      arxivId: arxiv?.match(ARXIV_ID)?.[1],
+      abstract: clean('abstract')
+    }, source, importedAt);
+    if (entry) entries.push(entry);
+  }
+  return entries;
+};
+
+const parseRis = (text: string, source: string, importedAt: number): BibliographyEntry[] => {
+  const entries: BibliographyEntry[] = [];
+  let tags: Record<string, string[]> = {};
+  const first = (...names: string[]) => names.map(n => tags[n]?.[0]).find(Boolean);
+  for (const line of text.split(/\r?\n/)) {
+    const m = line.match(/^([A-Z][A-Z0-9])\s{1,2}-\s?(.*)$/);
+    if (!m) continue;
+    const [, tag, value] = m;
+    if (tag === 'TY') tags = {};
+    if (tag !== 'ER') {
+      (tags[tag] ??= []).push(value.trim());
+      continue;
+    }
+    const arxiv = [...(tags.UR ?? []), ...(tags.L1 ?? [])].map(u => u.match(/arxiv\.org\/(?:abs|pdf)\/([^\s]+)/)?.[1]).find(Boolean);
+    const entry = toEntry({
+      title: first('TI', 'T1', 'CT'),
+      authors: [...(tags.AU ?? []), ...(tags.A1 ?? [])],
+      venue: first('T2', 'JO', 'JF', 'BT', 'J2', 'PB'),
+      year: first('PY', 'Y1', 'DA'),
+      doi: first('DO'),
+      arxivId: arxiv?.match(ARXIV_ID)?.[1],
+      abstract: first('AB', 'N2')
+    }, source, importedAt);
+    if (entry) entries.push(entry);
+    tags = {};
+  }
+  return entries;
+};
+
+/**
+ * Parses a .bib or .ris file. The format is taken from the content, so either
+ * extension (or .txt exports) works.
+ */
+export const parseBibliographyFile = (text: string, source: string): BibliographyEntry[] => {
+  const importedAt = Date.now();
+  return /^\s*TY\s{1,2}-/m.test(text) ? parseRis(text, source, importedAt) : parseBibtex(text, source, importedAt);
+};
+
+// ================= Matching =================
+
+const titleWords = (title: string) => new Set(
+  title.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(w => w.length > 1)
+);
+
+// Dice coefficient over title words; parsed titles may have lost or gained a word
+const titleSimilarity = (a: string, b: string) => {
+  const [x, y] = [titleWords(a), titleWords(b)];
+  if (x.size === 0 || y.size === 0) return 0;
+  let shared = 0;
+  x.forEach(w => { if (y.has(w)) shared++; });
+  return (2 * shared) / (x.size + y.size);
+};
+
+/**
+ * Finds the imported record of a parsed reference: by DOI or arXiv id, otherwise by
+ * title similarity with an agreeing year. References whose title could not be parsed
+ * match when the record's title occurs in the printed entry. When several files hold
+ * the same work, the most recently imported record wins.
+ */
+export const matchBibliographyEntry = (reference: Reference, entries: BibliographyEntry[]): BibliographyEntry | undefined => {
+  entries = [...entries].sort((a, b) => b.importedAt - a.importedAt);
+  const doi = reference.doi?.toLowerCase();
+  const byId = entries.find(e => (doi && e.doi?.toLowerCase() === doi) || (reference.arxivId && e.arxivId === reference.arxivId));
+  if (byId) return byId;
+
+  const rawTitle = normalizeTitle(reference.raw);
+  let best: { entry: BibliographyEntry; score: number } | undefined;
+  for (const entry of entries) {
+    if (reference.year && entry.year && reference.year !== entry.year) continue;
+    const score = reference.title
+      ? titleSimilarity(reference.title, entry.title)
+      : normalizeTitle(entry.title).length >= MIN_TITLE_MATCH * 2 && rawTitle.includes(normalizeTitle(entry.title)) ? 1 : 0;
+    if (score >= MIN_TITLE_SIMILARITY && (!best || score > best.score)) best = { entry, score };
+  }
+  return best?.entry;
+};
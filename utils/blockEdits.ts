@@ -0,0 +1,63 @@
+import { BlockEdit, ContentBlock, PageTranslation } from '../types';
+
+// User corrections of translated blocks. Edits live next to the model output
+// and are matched by source text, so a re-translated page picks them up again.
+
+export type BlockEdits = Record<string, BlockEdit>;
+
+// Punctuation and spacing differ between re-extractions of the same paragraph
+export const blockKey = (block: ContentBlock) =>
+  `${block.type}:${block.source.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim()}`;
+
+export const getBlockEdit = (translation: PageTranslation, block: ContentBlock): BlockEdit | undefined =>
+  translation.edits?.[blockKey(block)];
+
+/**
+ * Blocks as the reader should see them: the model output with user edits applied.
+ */
+export const applyBlockEdits = (translation: PageTranslation): ContentBlock[] => {
+  if (!translation.edits) return translation.blocks;
+  return translation.blocks.map(block => {
+    const edit = translation.edits![blockKey(block)];
+    return edit ? { ...block, target: edit.target } : block;
+  });
+};
+
+const startEdit = (block: ContentBlock, existing?: BlockEdit): BlockEdit =>
+  existing || { target: block.target, locked: false, history: [{ target: block.target, author: 'model', at: Date.now() }] };
+
+export const editBlock = (edits: BlockEdits, block: ContentBlock, target: string): BlockEdits => {
+  const key = blockKey(block);
+  const edit = startEdit(block, edits[key]);
+  if (edit.target === target) return edits;
+  return {
+    ...edits,
+    [key]: { ...edit, target, history: [...edit.history, { target, author: 'user', at: Date.now() }] }
+  };
+};
+
+export const restoreRevision = (edits: BlockEdits, block: ContentBlock, index: number): BlockEdits => {
+  const edit = edits[blockKey(block)];
+  const revision = edit?.history[index];
+  return revision ? editBlock(edits, block, revision.target) : edits;
+};
+
+export const toggleBlockLock = (edits: BlockEdits, block: ContentBlock): BlockEdits => {
+  const key = blockKey(block);
+  const edit = startEdit(block, edits[key]);
+  const next = { ...edits, [key]: { ...edit, locked: !edit.locked } };
+  // Unlocking a block the user never changed leaves nothing worth keeping
+  if (edit.locked && !edit.history.some(r => r.author === 'user')) delete next[key];
+  return next;
+};
+
+/**
+ * Edits that survive a re-translation: locked blocks, and blocks whose text is the user's own.
+ * An unlocked edit still showing a model revision (e.g. one the user restored) gives way to the new output.
+ */
+export const editsToKeep = (edits: BlockEdits): BlockEdits =>
+  Object.fromEntries(Object.entries(edits).filter(([, edit]) =>
+    edit.locked || !edit.history.some(r => r.author === 'model' && r.target === edit.target)
+  ));
+
+export const isEditedBlock = (edit: BlockEdit | undefined) => !!edit && edit.history.some(r => r.author === 'user');
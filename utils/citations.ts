@@ -0,0 +1,94 @@
+import { ReferenceIndex, authorSurname, expandCitationLabels, findReference } from './references';
+
+// Detects in-text citations in (translated) block text — numeric brackets, superscript
+// numbers and author-year forms — and maps each one to entries of the parsed reference list.
+
+export interface DetectedCitation {
+  start: number; // span of the citation in the text
+  end: number;
+  text: string; // as written
+  labels: string[]; // reference labels it points to; parts that did not resolve are kept as written
+}
+
+const MAX_ITEM_LENGTH = 120;
+
+const NUMERIC = /\[(\d{1,3}(?:\s*[-–]\s*\d{1,3})?(?:\s*[,;]\s*\d{1,3}(?:\s*[-–]\s*\d{1,3})?)*)\]/g;
+const SUPERSCRIPT = /[⁰¹²³⁴⁵⁶⁷⁸⁹]+(?:[⁻˗,˒]\s?[⁰¹²³⁴⁵⁶⁷⁸⁹]+)*/g;
+const SUPERSCRIPT_DIGITS = '⁰¹²³⁴⁵⁶⁷⁸⁹';
+const YEAR = /\b(?:19|20)\d{2}[a-z]?\b/g;
+const SURNAME = "\\p{Lu}[\\p{L}'’-]+";
+// "(Smith et al., 2020; Doe & Roe 2019a)" — also full-width brackets once translated
+const PARENTHETICAL = /[(（]([^()（）]{4,300}?)[)）]/g;
+// "Smith et al. (2020)", "Smith and Doe (2019, 2020)", "Smith 等人（2020）", "Smith 和 Doe（2019）"
+const NARRATIVE = new RegExp(
+  `(${SURNAME})(?:\\s+(?:et al\\.?|and\\s+${SURNAME}|&\\s*${SURNAME})|\\s*[和与]\\s*${SURNAME}|\\s*等人?)?\\s*[(（]((?:19|20)\\d{2}[a-z]?(?:[,，]\\s*(?:19|20)\\d{2}[a-z]?)*)[)）]`,
+  'gu'
+);
+const ITEM_PREFIX = /^(?:e\.g\.|i\.e\.|see(?: also)?|cf\.|如|参见|见)[,，:\s]*/i;
+
+// A letter, unit or number right before a superscript makes it an exponent ("x²", "cm²", "10³", "s⁻¹")
+const EXPONENT_BASE = /(?:^|[^\p{L}])(?:\p{L}|mm|cm|km|nm|μm|kg|ms|Hz)$|\d$|[⁻˗]$/u;
+
+const normalizeName = (name: string) => name.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+// The label of the entry written by `surname` in `year` ("2020a" prefers the matching suffix)
+const resolveAuthorYear = (index: ReferenceIndex | null, surname: string, year: string): string => {
+  const candidates = (index?.references ?? []).filter(r =>
+    r.authors.length > 0 &&
+    r.year === year.slice(0, 4) &&
+    normalizeName(authorSurname(r.authors[0])) === normalizeName(surname)
+  );
+  const exact = candidates.find(r => r.label.endsWith(year));
+  return (exact || candidates[0])?.label ?? `${surname} ${year}`;
+};
+
+// One "Smith et al., 2020, 2021" item of a parenthetical citation
+const parseItem = (item: string, index: ReferenceIndex | null): string[] => {
+  const text = item.trim().replace(ITEM_PREFIX, '');
+  const surname = text.match(new RegExp(`^${SURNAME}`, 'u'))?.[0];
+  const years = text.match(YEAR);
+  if (!surname || !years || text.length > MAX_ITEM_LENGTH) return [];
+  return years.map(year => resolveAuthorYear(index, surname, year));
+};
+
+const fromSuperscript = (text: string) =>
+  [...text].map(c => {
+    const digit = SUPERSCRIPT_DIGITS.indexOf(c);
+    return digit >= 0 ? String(digit) : c === '⁻' || c === '˗' ? '-' : c === '˒' ? ',' : c;
+  }).join('');
+
+/**
+ * Finds the citations in a text, in order and without overlaps. Superscripts are only
+ * taken as citations when every number exists in the reference list, so "m²" stays plain.
+ */
+export const detectCitations = (text: string, index: ReferenceIndex | null): DetectedCitation[] => {
+  const found: DetectedCitation[] = [];
+  const add = (start: number, matched: string, labels: string[]) => {
+    if (labels.length > 0) found.push({ start, end: start + matched.length, text: matched, labels: [...new Set(labels)] });
+  };
+
+  for (const m of text.matchAll(NUMERIC)) add(m.index!, m[0], expandCitationLabels(m[1]));
+
+  for (const m of text.matchAll(SUPERSCRIPT)) {
+    if (EXPONENT_BASE.test(text.slice(0, m.index))) continue;
+    const labels = expandCitationLabels(fromSuperscript(m[0]));
+    if (labels.every(label => findReference(index, label))) add(m.index!, m[0], labels);
+  }
+
+  for (const m of text.matchAll(NARRATIVE)) {
+    add(m.index!, m[0], m[2].split(/[,，]\s*/).map(year => resolveAuthorYear(index, m[1], year)));
+  }
+
+  for (const m of text.matchAll(PARENTHETICAL)) {
+    if (!/\b(?:19|20)\d{2}[a-z]?\b/.test(m[1])) continue;
+    add(m.index!, m[0], m[1].split(/[;；]/).flatMap(item => parseItem(item, index)));
+  }
+
+  // Earlier matches win; at the same start the longer one does
+  found.sort((a, b) => a.start - b.start || b.end - a.end);
+  const citations: DetectedCitation[] = [];
+  for (const citation of found) {
+    if (citations.length === 0 || citations[citations.length - 1].end <= citation.start) citations.push(citation);
+  }
+  return citations;
+};
@@ -0,0 +1,403 @@
+import katex from 'katex';
+import { BlockTable, ContentBlock, GlossaryTerm, PageTranslation } from '../types';
+import { applyBlockEdits } from './blockEdits';
+import { tableHeader } from './tables';
+import { getLanguageOption, LanguageCode } from '../services/languages';
+
+// Assembles cached page translations into downloadable documents.
+// DOCX is written by hand (a store-only zip of WordprocessingML) to avoid another dependency.
+
+export type ExportFormat = 'markdown' | 'html' | 'docx';
+export type ExportLayout = 'bilingual' | 'sideBySide' | 'targetOnly';
+
+export interface ExportOptions {
+  title: string;
+  pageCount: number;
+  pages: Map<number, PageTranslation>;
+  format: ExportFormat;
+  layout: ExportLayout;
+  includeGlossary: boolean;
+}
+
+const UNTRANSLATED_NOTE = '本页尚未翻译 (Page not translated)';
+
+const collectGlossary = (pages: Map<number, PageTranslation>): GlossaryTerm[] => {
+  const seen = new Map<string, GlossaryTerm>();
+  Array.from(pages.keys()).sort((a, b) => a - b).forEach(page => {
+    for (const term of pages.get(page)!.glossary) {
+      const key = term.term.trim().toLowerCase();
+      if (key && !seen.has(key)) seen.set(key, term);
+    }
+  });
+  return Array.from(seen.values());
+};
+
+const glossaryLabel = (term: GlossaryTerm) => term.translation ? `${term.term} (${term.translation})` : term.term;
+
+// Language pair of the export, taken from the first translated page (pages cached before v5 are en → zh)
+const paperLanguages = (pages: Map<number, PageTranslation>) => {
+  const first = Array.from(pages.keys()).sort((a, b) => a - b)[0];
+  const languages = (first !== undefined && pages.get(first)!.languages) || { source: 'en', target: 'zh' };
+  return {
+    source: { code: languages.source, label: getLanguageOption(languages.source as LanguageCode).label },
+    target: { code: languages.target, label: getLanguageOption(languages.target as LanguageCode).label }
+  };
+};
+
+const pageNumbers = (pageCount: number) => Array.from({ length: pageCount }, (_, i) => i + 1);
+
+// ================= Markdown =================
+
+const mdBlock = (block: ContentBlock, text: string) => {
+  switch (block.type) {
+    case 'heading': return `### ${text}`;
+    case 'equation': return `$$\n${block.source}\n$$`;
+    case 'figure': return `> **Figure:** ${text}`;
+    case 'table': return `> **Table:** ${text}`;
+    default: return text;
+  }
+};
+
+const mdCell = (text: string) => text.replace(/\|/g, '\\|').replace(/\n+/g, '<br>');
+
+const mdTable = (table: BlockTable) => {
+  const header = tableHeader(table);
+  return [
+    `| ${header.map(mdCell).join(' | ')} |`,
+    `|${header.map(() => ' --- |').join('')}`,
+    ...table.rows.map(row => `| ${row.map(mdCell).join(' | ')} |`)
+  ].join('\n');
+};
+
+const toMarkdown = ({ title, pageCount, pages, layout, includeGlossary }: ExportOptions): string => {
+  const out: string[] = [`# ${title}`, ''];
+  const languages = paperLanguages(pages);
+
+  for (const page of pageNumbers(pageCount)) {
+    out.push(`## 第 ${page} 页 (Page ${page})`, '');
+    const translation = pages.get(page);
+    if (!translation) {
+      out.push(`> ⚠️ ${UNTRANSLATED_NOTE}`, '');
+      continue;
+    }
+
+    if (layout === 'sideBySide') {
+      out.push(`| ${languages.source.label} | ${languages.target.label} |`, '| --- | --- |');
+      for (const block of applyBlockEdits(translation)) {
+        const original = block.type === 'equation' ? `$${block.source}$` : block.source;
+        out.push(`| ${mdCell(original)} | ${mdCell(block.target)} |`);
+      }
+      out.push('');
+      // Markdown tables cannot nest, so the page's data tables follow the two columns
+      applyBlockEdits(translation).forEach(block => { if (block.table) out.push(mdTable(block.table), ''); });
+      continue;
+    }
+
+    for (const block of applyBlockEdits(translation)) {
+      if (block.type === 'equation') {
+        out.push(mdBlock(block, block.source), '');
+        if (block.target) out.push(`*${block.target}*`, '');
+        continue;
+      }
+      if (layout === 'bilingual') out.push(mdBlock(block, block.source), '');
+      out.push(mdBlock(block, block.target), '');
+      if (block.table) out.push(mdTable(block.table), '');
+    }
+  }
+
+  const glossary = collectGlossary(pages);
+  if (includeGlossary && glossary.length > 0) {
+    out.push('## 术语表 (Glossary)', '', '| Term | 释义 |', '| --- | --- |');
+    glossary.forEach(g => out.push(`| ${mdCell(glossaryLabel(g))} | ${mdCell(g.definition)} |`));
+    out.push('');
+  }
+
+  return out.join('\n');
+};
+
+// ================= HTML =================
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const htmlEquation = (latex: string) =>
+  `<div class="equation">${katex.renderToString(latex, { throwOnError: false, displayMode: true, output: 'html' })}</div>`;
+
+const htmlBlock = (block: ContentBlock, text: string, lang: string) => {
+  const safe = escapeHtml(text);
+  switch (block.type) {
+    case 'heading': return `<h3 lang="${lang}">${safe}</h3>`;
+    case 'figure': return `<p class="figure" lang="${lang}"><strong>Figure:</strong> ${safe}</p>`;
+    case 'table': return `<p class="figure" lang="${lang}"><strong>Table:</strong> ${safe}</p>`;
+    default: return `<p lang="${lang}">${safe}</p>`;
+  }
+};
+
+const htmlTable = (table?: BlockTable) => table
+  ? `<table class="data"><thead><tr>${tableHeader(table).map(h => `<th>${escapeHtml(h)}</th>`).join('')}</tr></thead>`
+    + `<tbody>${table.rows.map(row => `<tr>${row.map(c => `<td>${escapeHtml(c)}</td>`).join('')}</tr>`).join('')}</tbody></table>`
+  : '';
+
+const toHtml = ({ title, pageCount, pages, layout, includeGlossary }: ExportOptions): string => {
+  const body: string[] = [`<h1>${escapeHtml(title)}</h1>`];
+  const { source, target } = paperLanguages(pages);
+
+  for (const page of pageNumbers(pageCount)) {
+    body.push(`<h2>第 ${page} 页 (Page ${page})</h2>`);
+    const translation = pages.get(page);
+    if (!translation) {
+      body.push(`<p class="missing">⚠️ ${UNTRANSLATED_NOTE}</p>`);
+      continue;
+    }
+
+    if (layout === 'sideBySide') {
+      body.push(`<table><thead><tr><th>${source.label}</th><th>${target.label}</th></tr></thead><tbody>`);
+      for (const block of applyBlockEdits(translation)) {
+        const original = block.type === 'equation' ? htmlEquation(block.source) : htmlBlock(block, block.source, source.code);
+        body.push(`<tr><td>${original}</td><td>${htmlBlock(block, block.target, target.code)}${htmlTable(block.table)}</td></tr>`);
+      }
+      body.push('</tbody></table>');
+      continue;
+    }
+
+    for (const block of applyBlockEdits(translation)) {
+      if (block.type === 'equation') {
+        body.push(htmlEquation(block.source));
+        if (block.target) body.push(`<p class="caption">${escapeHtml(block.target)}</p>`);
+        continue;
+      }
+      if (layout === 'bilingual') body.push(`<div class="source">${htmlBlock(block, block.source, source.code)}</div>`);
+      body.push(htmlBlock(block, block.target, target.code) + htmlTable(block.table));
+    }
+  }
+
+  const glossary = collectGlossary(pages);
+  if (includeGlossary && glossary.length > 0) {
+    body.push('<h2>术语表 (Glossary)</h2><table><thead><tr><th>Term</th><th>释义</th></tr></thead><tbody>');
+    glossary.forEach(g => body.push(`<tr><td>${escapeHtml(glossaryLabel(g))}</td><td>${escapeHtml(g.definition)}</td></tr>`));
+    body.push('</tbody></table>');
+  }
+
+  return `<!DOCTYPE html>
+<html lang="${target.code}">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<link rel="stylesheet" href="https://cdn.jsdelivr.net/npm/katex@0.16.9/dist/katex.min.css">
+<style>
+  body { max-width: 960px; margin: 2rem auto; padding: 0 1rem; font-family: "Noto Serif SC", serif; line-height: 1.7; color: #2c1810; }
+  h2 { border-bottom: 2px solid #8B4513; padding-bottom: .25rem; margin-top: 2.5rem; }
+  .source p, .source h3 { color: #6b5a4a; font-size: .92em; margin-bottom: .25rem; }
+  .equation { overflow-x: auto; margin: 1rem 0; }
+  .caption { font-style: italic; color: #6b5a4a; }
+  .missing { color: #b91c1c; font-weight: bold; }
+  table { width: 100%; border-collapse: collapse; margin: 1rem 0; }
+  td, th { border: 1px solid #c8b9a6; padding: .5rem; vertical-align: top; width: 50%; }
+  table.data td, table.data th { width: auto; padding: .25rem .5rem; font-size: .9em; }
+</style>
+</head>
+<body>
+${body.join('\n')}
+</body>
+</html>`;
+};
+
+// ================= DOCX =================
+
+const escapeXml = (text: string) => escapeHtml(text).replace(/'/g, '&apos;');
+
+const docxRun = (text: string, props = '') =>
+  `<w:r>${props ? `<w:rPr>${props}</w:rPr>` : ''}<w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>`;
+
+const docxParagraph = (text: string, props = '') => `<w:p>${docxRun(text, props)}</w:p>`;
+
+const BOLD = '<w:b/>';
+const HEADING = '<w:b/><w:sz w:val="28"/>';
+const TITLE = '<w:b/><w:sz w:val="36"/>';
+const MUTED = '<w:color w:val="6B5A4A"/><w:sz w:val="20"/>';
+const MONO = '<w:rFonts w:ascii="Consolas" w:hAnsi="Consolas"/><w:sz w:val="20"/>';
+const WARNING = '<w:b/><w:color w:val="B91C1C"/>';
+const TABLE_BORDERS = '<w:top w:val="single" w:sz="4"/><w:left w:val="single" w:sz="4"/><w:bottom w:val="single" w:sz="4"/><w:right w:val="single" w:sz="4"/><w:insideH w:val="single" w:sz="4"/><w:insideV w:val="single" w:sz="4"/>';
+
+// Equations stay as LaTeX source in a monospace run; Word has no LaTeX renderer
+const docxBlock = (block: ContentBlock, text: string, muted: boolean) => {
+  if (block.type === 'equation') return docxParagraph(block.source, MONO);
+  if (block.type === 'heading') return docxParagraph(text, muted ? `${BOLD}${MUTED}` : HEADING);
+  if (block.type === 'figure') return `<w:p>${docxRun('Figure: ', BOLD)}${docxRun(text, muted ? MUTED : '')}</w:p>`;
+  if (block.type === 'table') return `<w:p>${docxRun('Table: ', BOLD)}${docxRun(text, muted ? MUTED : '')}</w:p>`;
+  return docxParagraph(text, muted ? MUTED : '');
+};
+
+const docxTable = (rows: [string, string][], header: [string, string]) => {
+  const cell = (content: string) => `<w:tc><w:tcPr><w:tcW w:w="4500" w:type="dxa"/></w:tcPr>${content}</w:tc>`;
+  return `<w:tbl><w:tblPr><w:tblW w:w="9000" w:type="dxa"/><w:tblBorders>${TABLE_BORDERS}</w:tblBorders></w:tblPr>`
+    + `<w:tr>${cell(docxParagraph(header[0], BOLD))}${cell(docxParagraph(header[1], BOLD))}</w:tr>`
+    + rows.map(([a, b]) => `<w:tr>${cell(a)}${cell(b)}</w:tr>`).join('')
+    + '</w:tbl><w:p/>';
+};
+
+// Data tables size their columns automatically, so they also fit inside a side-by-side cell
+const docxDataTable = (table?: BlockTable) => {
+  if (!table) return '';
+  const row = (cells: string[], props = '') => `<w:tr>${cells.map(c => `<w:tc>${docxParagraph(c, props)}</w:tc>`).join('')}</w:tr>`;
+  return `<w:tbl><w:tblPr><w:tblW w:w="0" w:type="auto"/><w:tblBorders>${TABLE_BORDERS}</w:tblBorders></w:tblPr>`
+    + row(tableHeader(table), BOLD)
+    + table.rows.map(cells => row(cells)).join('')
+    + '</w:tbl><w:p/>';
+};
+
+const toDocxXml = ({ title, pageCount, pages, layout, includeGlossary }: ExportOptions): string => {
+  const body: string[] = [docxParagraph(title, TITLE)];
+  const languages = paperLanguages(pages);
+
+  for (const page of pageNumbers(pageCount)) {
+    body.push(docxParagraph(`第 ${page} 页 (Page ${page})`, HEADING));
+    const translation = pages.get(page);
+    if (!translation) {
+      body.push(docxParagraph(`⚠ ${UNTRANSLATED_NOTE}`, WARNING));
+      continue;
+    }
+
+    if (layout === 'sideBySide') {
+      body.push(docxTable(
+        applyBlockEdits(translation).map(block => [
+          docxBlock(block, block.source, false),
+          docxParagraph(block.target, block.type === 'heading' ? BOLD : '') + docxDataTable(block.table)
+        ]),
+        [languages.source.label, languages.target.label]
+      ));
+      continue;
+    }
+
+    for (const block of applyBlockEdits(translation)) {
+      if (block.type === 'equation') {
+        body.push(docxBlock(block, block.source, false));
+        if (block.target) body.push(docxParagraph(block.target, MUTED));
+        continue;
+      }
+      if (layout === 'bilingual') body.push(docxBlock(block, block.source, true));
+      body.push(docxBlock(block, block.target, false) + docxDataTable(block.table));
+    }
+  }
+
+  const glossary = collectGlossary(pages);
+  if (includeGlossary && glossary.length > 0) {
+    body.push(docxParagraph('术语表 (Glossary)', HEADING));
+    body.push(docxTable(glossary.map(g => [docxParagraph(glossaryLabel(g), BOLD), docxParagraph(g.definition)]), ['Term', '释义']));
+  }
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:body>${body.join('')}<w:sectPr><w:pgSz w:w="11906" w:h="16838"/><w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="720" w:footer="720" w:gutter="0"/></w:sectPr></w:body></w:document>`;
+};
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/></Types>`;
+
+const ROOT_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/></Relationships>`;
+
+// --- Minimal store-only zip writer ---
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (data: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const createZip = (files: { name: string; content: string }[]): Uint8Array => {
+  const encoder = new TextEncoder();
+  const chunks: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = encoder.encode(file.name);
+    const data = encoder.encode(file.content);
+    const crc = crc32(data);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true);           // version needed
+    local.setUint16(6, 0x0800, true);       // UTF-8 names
+    local.setUint16(8, 0, true);            // stored, no compression
+    local.setUint32(14, crc, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, data.length, true);
+    local.setUint16(26, name.length, true);
+    chunks.push(new Uint8Array(local.buffer), name, data);
+
+    const entry = new DataView(new ArrayBuffer(46));
+    entry.setUint32(0, 0x02014b50, true);
+    entry.setUint16(4, 20, true);
+    entry.setUint16(6, 20, true);
+    entry.setUint16(8, 0x0800, true);
+    entry.setUint32(16, crc, true);
+    entry.setUint32(20, data.length, true);
+    entry.setUint32(24, data.length, true);
+    entry.setUint16(28, name.length, true);
+    entry.setUint32(42, offset, true);
+    central.push(new Uint8Array(entry.buffer), name);
+
+    offset += 30 + name.length + data.length;
+  }
+
+  const centralSize = central.reduce((sum, c) => sum + c.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, files.length, true);
+  end.setUint16(10, files.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  const parts = [...chunks, ...central, new Uint8Array(end.buffer)];
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let pos = 0;
+  for (const part of parts) {
+    out.set(part, pos);
+    pos += part.length;
+  }
+  return out;
+};
+
+// ================= Entry point =================
+
+export const EXPORT_EXTENSIONS: Record<ExportFormat, string> = {
+  markdown: 'md',
+  html: 'html',
+  docx: 'docx'
+};
+
+export const buildExport = (options: ExportOptions): Blob => {
+  switch (options.format) {
+    case 'markdown':
+      return new Blob([toMarkdown(options)], { type: 'text/markdown;charset=utf-8' });
+    case 'html':
+      return new Blob([toHtml(options)], { type: 'text/html;charset=utf-8' });
+    case 'docx':
+      return new Blob([createZip([
+        { name: '[Content_Types].xml', content: CONTENT_TYPES },
+        { name: '_rels/.rels', content: ROOT_RELS },
+        { name: 'word/document.xml', content: toDocxXml(options) }
+      ])], { type: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' });
+  }
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Give the browser a moment to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
@@ -1,4 +1,6 @@
 import * as pdfjsLib from 'pdfjs-dist';
+import { BlockBox } from '../types';
+import { groupTextItems, isUsableTextLayer, TextItemLike, TextLayerBlock } from './textLayout';
 
 // Ensure worker is set. 
 // Note: In a real Vite app, you might handle worker loading differently, 
@@ -21,35 +23,152 @@ export const fileToBase64 = (file: File): Promise<string> => {
   });
 };
 
-export const extractTextFromPdf = async (base64Data: string): Promise<string> => {
-  try {
-    // Decode base64 to binary
-    const binaryString = window.atob(base64Data);
-    const len = binaryString.length;
-    const bytes = new Uint8Array(len);
-    for (let i = 0; i < len; i++) {
-      bytes[i] = binaryString.charCodeAt(i);
-    }
+// The last opened document is kept so per-page lookups don't re-decode the whole file
+let cachedDocument: { base64: string; promise: Promise<pdfjsLib.PDFDocumentProxy> } | null = null;
 
-    // Load document
-    const loadingTask = pdfjsLib.getDocument({ data: bytes });
-    const pdf = await loadingTask.promise;
-    
-    let fullText = '';
-    const maxPages = Math.min(pdf.numPages, 10); // Limit to first 10 pages for summary to save tokens/time if needed
+const loadPdfDocument = (base64Data: string): Promise<pdfjsLib.PDFDocumentProxy> => {
+  if (cachedDocument?.base64 === base64Data) return cachedDocument.promise;
+
+  // Decode base64 to binary
+  const binaryString = window.atob(base64Data);
+  const len = binaryString.length;
+  const bytes = new Uint8Array(len);
+  for (let i = 0; i < len; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+
+  const promise = pdfjsLib.getDocument({ data: bytes }).promise;
+  cachedDocument = { base64: base64Data, promise };
+  promise.catch(() => {
+    if (cachedDocument?.promise === promise) cachedDocument = null;
+  });
+  return promise;
+};
 
-    for (let i = 1; i <= maxPages; i++) {
+/**
+ * Extracts the text of every page, one string per page.
+ */
+export const extractPagesFromPdf = async (base64Data: string): Promise<string[]> => {
+  try {
+    const pdf = await loadPdfDocument(base64Data);
+    
+    const pages: string[] = [];
+    for (let i = 1; i <= pdf.numPages; i++) {
       const page = await pdf.getPage(i);
       const textContent = await page.getTextContent();
       const pageText = textContent.items
         .map((item: any) => item.str)
         .join(' ');
-      fullText += `--- Page ${i} ---\n${pageText}\n\n`;
+      pages.push(pageText);
     }
 
-    return fullText;
+    return pages;
   } catch (error) {
     console.error("PDF Text Extraction Error:", error);
     throw new Error("Failed to extract text from PDF");
   }
 };
+
+/**
+ * Groups one page's text layer into positioned blocks.
+ * Returns an empty array when the page has no usable text (e.g. scanned images).
+ */
+export const extractPageTextBlocks = async (base64Data: string, pageNumber: number): Promise<TextLayerBlock[]> => {
+  const pdf = await loadPdfDocument(base64Data);
+  const page = await pdf.getPage(pageNumber);
+  const viewport = page.getViewport({ scale: 1 });
+  const textContent = await page.getTextContent();
+  const items = textContent.items.filter((item: any) => typeof item.str === 'string') as TextItemLike[];
+  const blocks = groupTextItems(items, viewport.width, viewport.height);
+  return isUsableTextLayer(blocks) ? blocks : [];
+};
+
+export const getPdfPageCount = async (base64Data: string): Promise<number> => {
+  const pdf = await loadPdfDocument(base64Data);
+  return pdf.numPages;
+};
+
+/**
+ * Renders a page to an offscreen canvas (for pages translated from a screenshot in the background).
+ */
+export const renderPageToCanvas = async (base64Data: string, pageNumber: number, scale = 1.5): Promise<HTMLCanvasElement> => {
+  const pdf = await loadPdfDocument(base64Data);
+  const page = await pdf.getPage(pageNumber);
+  const viewport = page.getViewport({ scale });
+  const canvas = document.createElement('canvas');
+  canvas.width = viewport.width;
+  canvas.height = viewport.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas 2D context unavailable");
+  await page.render({ canvasContext: ctx, viewport }).promise;
+  return canvas;
+};
+
+// Figures on the same page share one render
+let cachedPageCanvas: { base64: string; pageNumber: number; scale: number; promise: Promise<HTMLCanvasElement> } | null = null;
+
+/**
+ * Crops a region of a page (normalized box) to a PNG data URL, for showing figures inline.
+ */
+export const renderPageRegion = async (base64Data: string, pageNumber: number, box: BlockBox, scale = 2): Promise<string> => {
+  let cached = cachedPageCanvas;
+  if (!cached || cached.base64 !== base64Data || cached.pageNumber !== pageNumber || cached.scale !== scale) {
+    const promise = renderPageToCanvas(base64Data, pageNumber, scale);
+    cached = { base64: base64Data, pageNumber, scale, promise };
+    cachedPageCanvas = cached;
+    promise.catch(() => {
+      if (cachedPageCanvas?.promise === promise) cachedPageCanvas = null;
+    });
+  }
+  const page = await cached.promise;
+
+  const x = Math.floor(box.x * page.width);
+  const y = Math.floor(box.y * page.height);
+  const width = Math.max(1, Math.ceil(box.width * page.width));
+  const height = Math.max(1, Math.ceil(box.height * page.height));
+  const crop = document.createElement('canvas');
+  crop.width = width;
+  crop.height = height;
+  const ctx = crop.getContext('2d');
+  if (!ctx) throw new Error("Canvas 2D context unavailable");
+  ctx.drawImage(page, x, y, width, height, 0, 0, width, height);
+  return crop.toDataURL('image/png');
+};
+
+/**
+ * Downscales a rendered page and encodes it as JPEG base64 (no data: prefix) for vision models.
+ */
+export const canvasToJpegBase64 = (canvas: HTMLCanvasElement, maxDimension = 1000): string => {
+  const { width, height } = canvas;
+  if (width > maxDimension || height > maxDimension) {
+    const scale = Math.min(maxDimension / width, maxDimension / height);
+    const tempCanvas = document.createElement('canvas');
+    tempCanvas.width = width * scale;
+    tempCanvas.height = height * scale;
+    const ctx = tempCanvas.getContext('2d');
+    if (ctx) {
+      ctx.drawImage(canvas, 0, 0, tempCanvas.width, tempCanvas.height);
+      return tempCanvas.toDataURL('image/jpeg', 0.6).split(',')[1];
+    }
+  }
+  return canvas.toDataURL('image/jpeg', 0.6).split(',')[1];
+};
+
+// Bump when extraction changes, so text cached by an older extractor is re-extracted.
+// Records without a version come from the extractor that stopped after 10 pages.
+export const TEXT_EXTRACTOR_VERSION = 2;
+
+export const extractTextFromPdf = async (base64Data: string): Promise<string> => {
+  const pages = await extractPagesFromPdf(base64Data);
+  return pages.map((text, i) => `--- Page ${i + 1} ---\n${text}\n\n`).join('');
+};
+
+/**
+ * Splits text produced by extractTextFromPdf back into pages.
+ * Text without page markers is treated as a single page.
+ */
+export const splitTextIntoPages = (fullText: string): string[] => {
+  const parts = fullText.split(/^--- Page \d+ ---$/m);
+  if (parts.length <= 1) return fullText.trim() ? [fullText.trim()] : [];
+  return parts.slice(1).map(p => p.trim());
+};
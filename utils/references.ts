@@ -0,0 +1,197 @@
+import { Reference } from '../types';
+import { splitTextIntoPages } from './pdfUtils';
+
+// Local parsing of the paper's bibliography, so a click on "[12]" resolves
+// instantly from the extracted text instead of asking the model to read the PDF.
+
+export interface ReferenceIndex {
+  version: number;
+  references: Reference[];
+}
+
+export const REFERENCE_INDEX_VERSION = 3;
+
+const HEADING = /\b(?:References|REFERENCES|Bibliography|BIBLIOGRAPHY|Literature Cited|LITERATURE CITED|参考文献)\b/g;
+const SECTION_END = /\b(?:Appendix|APPENDIX|Appendices|APPENDICES|Supplementary Material|SUPPLEMENTARY MATERIAL)\b/;
+const MIN_ENTRIES = 3;
+const MAX_RANGE = 50;
+
+const DOI = /\b(10\.\d{4,9}\/[^\s"<>]+)/;
+const ARXIV = /arXiv[:\s]*(?:preprint\s+)?(?:arXiv:)?\s*(\d{4}\.\d{4,5})(?:v\d+)?|arxiv\.org\/(?:abs|pdf)\/(\d{4}\.\d{4,5})/i;
+const YEAR = /\b((?:19|20)\d{2})[a-z]?\b/;
+const QUOTED_TITLE = /["“]([^"”]{8,}?)[,.]?["”]/;
+const APA_YEAR = /\(((?:19|20)\d{2})[a-z]?\)\.?/;
+
+// The text after the last bibliography heading, without page markers
+const findReferenceSection = (fullText: string): string => {
+  const text = splitTextIntoPages(fullText).join(' ').replace(/\s+/g, ' ');
+  const headings = [...text.matchAll(HEADING)];
+  if (headings.length === 0) return '';
+  const last = headings[headings.length - 1];
+  const section = text.slice(last.index! + last[0].length);
+  const end = section.slice(200).search(SECTION_END);
+  return (end >= 0 ? section.slice(0, end + 200) : section).trim();
+};
+
+// Entries introduced by "[1]" or "1." markers. Markers must count up from 1,
+// which filters out volume numbers and the like that happen to match.
+const splitNumbered = (text: string, marker: RegExp): { label: string; raw: string }[] => {
+  const starts: { index: number; end: number; label: string }[] = [];
+  for (const m of text.matchAll(marker)) {
+    if (Number(m[1]) !== starts.length + 1) continue;
+    starts.push({ index: m.index!, end: m.index! + m[0].length, label: m[1] });
+  }
+  return starts.map((start, i) => ({
+    label: start.label,
+    raw: text.slice(start.end, starts[i + 1]?.index ?? text.length).trim()
+  }));
+};
+
+// Unnumbered (author-year) lists: a new entry starts with "Surname, X" after a full stop,
+// page range or URL, and an entry is only complete once it contains a year
+const splitAuthorYear = (text: string): string[] => {
+  const chunks = text.split(/(?<=(?:[.)\d]|\/\S*)\s)(?=\p{Lu}[\p{L}'’-]+,\s\p{Lu})/u);
+  const entries: string[] = [];
+  for (const chunk of chunks) {
+    if (entries.length > 0 && !YEAR.test(entries[entries.length - 1])) entries[entries.length - 1] += chunk;
+    else entries.push(chunk);
+  }
+  return entries.map(e => e.trim()).filter(Boolean);
+};
+
+// Splits on full stops, except after initials that continue an author list ("A. Smith, B. Jones.")
+const splitSentences = (text: string): string[] => {
+  const parts: string[] = [];
+  let start = 0;
+  for (const m of text.matchAll(/\.\s+/g)) {
+    const before = text.slice(start, m.index).split(/\s+/).pop()!.replace(/^[^\p{L}]+/u, '');
+    const after = text.slice(m.index! + m[0].length);
+    // "J. Devlin", "M.-W. Chang": a period after an initial does not end the sentence
+    if (/^\p{Lu}(?:\.-\p{Lu})*$/u.test(before) && /^(?:\p{Lu}\.|[\p{L}'’-]+(?:,|\s+(?:and|&)\s|\.))/u.test(after)) continue;
+    parts.push(text.slice(start, m.index).trim());
+    start = m.index! + m[0].length;
+  }
+  parts.push(text.slice(start).trim());
+  return parts.filter(Boolean);
+};
+
+const splitFields = (text: string): { authors: string; title: string; venue: string } => {
+  const quoted = text.match(QUOTED_TITLE);
+  if (quoted) {
+    return { authors: text.slice(0, quoted.index), title: quoted[1], venue: text.slice(quoted.index! + quoted[0].length) };
+  }
+  // "Smith, J. (2020). Title. Venue" — the year directly follows the author list
+  const apa = text.match(APA_YEAR);
+  if (apa && apa.index! > 0 && splitSentences(text.slice(0, apa.index)).length === 1) {
+    const [title = '', ...venue] = splitSentences(text.slice(apa.index! + apa[0].length));
+    return { authors: text.slice(0, apa.index), title, venue: venue.join('. ') };
+  }
+  const [first = '', second = '', ...rest] = splitSentences(text);
+  // "Smith, J., Doe, A.: Title. Venue" (Springer)
+  const colon = first.indexOf(': ');
+  if (colon > 0) return { authors: first.slice(0, colon), title: first.slice(colon + 2), venue: [second, ...rest].join('. ') };
+  return { authors: first, title: second, venue: rest.join('. ') };
+};
+
+const parseAuthors = (text: string): string[] => {
+  const cleaned = text.replace(/\bet al\.?/g, '').replace(/\s+/g, ' ').trim().replace(/[\s,;:&]+$/, '');
+  if (!cleaned) return [];
+  // Surname first: "Smith, J., Doe, A. B."
+  if (/^\p{Lu}[\p{L}'’-]+,\s\p{Lu}\./u.test(cleaned)) {
+    return [...cleaned.matchAll(/\p{Lu}[\p{L}'’-]+,\s(?:\p{Lu}\.\s?-?)+/gu)].map(m => m[0].trim());
+  }
+  return cleaned
+    .split(/\s*(?:,\s*and\s+|\s+and\s+|&|;|,)\s*/)
+    .map(a => a.trim().replace(/(\p{L}{2,})\.$/u, '$1'))
+    .filter(a => a.length > 1);
+};
+
+const tidy = (text: string) => text.replace(/\s+/g, ' ').trim().replace(/^["“]|["”]$/g, '').replace(/^[\s,.;:]+|[\s,.;:]+$/g, '');
+
+const cleanVenue = (text: string) =>
+  tidy(text
+    .replace(/^\s*[Ii]n:?\s+/, '')
+    .replace(/\(?\b(?:19|20)\d{2}[a-z]?\)?/g, '')
+    .replace(/\b(?:pp?\.|pages?)\s*\d+\s*[-–]*\s*\d*/g, '')
+    .replace(/\barXiv\b(?=\s*$)/, '')
+    .replace(/\s+([.,;:])/g, '$1')
+  ).slice(0, 200);
+
+const parseEntry = (label: string, raw: string): Reference => {
+  const doi = raw.match(DOI)?.[1].replace(/[.,;)\]]+$/, '');
+  const arxiv = raw.match(ARXIV);
+  const arxivId = arxiv?.[1] || arxiv?.[2];
+  // Identifiers and URLs contain digit runs that look like years
+  const plain = raw
+    .replace(new RegExp(DOI.source, 'g'), ' ')
+    .replace(/\b(?:doi|DOI):?\s*(?=\s|$)/g, ' ')
+    .replace(/https?:\/\/\S+/g, ' ')
+    .replace(/(?:arXiv[:\s]*(?:preprint\s+)?(?:arXiv:)?\s*)\d{4}\.\d{4,5}(?:v\d+)?/gi, 'arXiv ')
+    .replace(/\s+/g, ' ')
+    .trim();
+  const fields = splitFields(plain);
+  return {
+    label,
+    raw,
+    authors: parseAuthors(fields.authors),
+    title: tidy(fields.title),
+    venue: cleanVenue(fields.venue),
+    year: plain.match(YEAR)?.[1] || '',
+    ...(doi ? { doi } : {}),
+    ...(arxivId ? { arxivId } : {})
+  };
+};
+
+// Surname of an author as printed ("Smith, J." or "J. Smith")
+export const authorSurname = (author: string) =>
+  author.includes(',') ? author.split(',')[0].trim() : author.trim().split(/\s+/).pop() || '';
+
+/**
+ * Parses the bibliography of a paper into structured references. Numbered lists
+ * are labelled with their number; author-year lists with "Surname Year", keeping
+ * the letter of "2020a"/"2020b" so both entries stay distinct.
+ */
+export const buildReferenceIndex = (fullText: string): ReferenceIndex => {
+  const section = findReferenceSection(fullText);
+  const bracketed = splitNumbered(section, /\[(\d{1,3})\]\s*/g);
+  const dotted = splitNumbered(section, /(?:^|\s)(\d{1,3})\.\s+(?=\p{Lu})/gu);
+  const numbered = bracketed.length >= dotted.length ? bracketed : dotted;
+
+  let references: Reference[];
+  if (numbered.length >= MIN_ENTRIES) {
+    references = numbered.map(entry => parseEntry(entry.label, entry.raw));
+  } else {
+    references = splitAuthorYear(section)
+      .map(raw => parseEntry('', raw))
+      .filter(r => r.authors.length > 0 && r.year)
+      .map(r => ({ ...r, label: `${authorSurname(r.authors[0])} ${r.raw.match(YEAR)?.[0] || r.year}` }));
+    if (references.length < MIN_ENTRIES) references = [];
+  }
+  return { version: REFERENCE_INDEX_VERSION, references };
+};
+
+// Keeps the reader's status and notes when a paper's reference list is parsed again
+export const carryOverAnnotations = (next: ReferenceIndex, previous?: ReferenceIndex): ReferenceIndex => {
+  if (!previous) return next;
+  const byRaw = new Map(previous.references.map(r => [r.raw, r]));
+  return {
+    ...next,
+    references: next.references.map(r => {
+      const old = byRaw.get(r.raw);
+      return old ? { ...r, note: old.note, status: old.status } : r;
+    })
+  };
+};
+
+// "3-5" → ["3", "4", "5"], "1, 2" → ["1", "2"]
+export const expandCitationLabels = (id: string): string[] =>
+  id.split(/\s*[,;]\s*/).flatMap(part => {
+    const range = part.match(/^(\d+)\s*[-–]\s*(\d+)$/);
+    if (!range) return [part.trim()];
+    const [from, to] = [Number(range[1]), Number(range[2])];
+    if (to < from || to - from > MAX_RANGE) return [part.trim()];
+    return Array.from({ length: to - from + 1 }, (_, i) => String(from + i));
+  }).filter(Boolean);
+
+export const findReference = (index: ReferenceIndex | null, label: string): Reference | undefined =>
+  index?.references.find(r => r.label === label);
@@ -0,0 +1,167 @@
+import { splitTextIntoPages } from './pdfUtils';
+
+// Local retrieval over the paper's extracted text: passages are indexed with BM25
+// (and optionally embeddings) so chat only sends the few passages that matter.
+
+export interface Passage {
+  id: number;
+  page: number;
+  text: string;
+}
+
+export interface PaperIndex {
+  version: number;
+  passages: Passage[];
+  termFreqs: Record<string, number>[]; // per passage
+  docFreq: Record<string, number>;
+  docLengths: number[];
+  avgDocLength: number;
+  embeddings?: {
+    model: string;
+    vectors: number[][];
+  };
+}
+
+export interface RetrievedPassage extends Passage {
+  score: number;
+}
+
+export const INDEX_VERSION = 1;
+
+const PASSAGE_TARGET_CHARS = 900;
+const PASSAGE_OVERLAP_CHARS = 150;
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'of', 'to', 'in', 'on', 'for', 'with', 'by', 'is', 'are', 'was', 'were',
+  'be', 'been', 'this', 'that', 'these', 'those', 'it', 'its', 'as', 'at', 'from', 'we', 'our', 'can',
+  'which', 'not', 'but', 'also', 'has', 'have', 'had', 'their', 'they', 'than', 'such', 'using', 'used'
+]);
+
+/**
+ * Lowercased word tokens for Latin text, character bigrams for CJK text.
+ */
+export const tokenize = (text: string): string[] => {
+  const tokens: string[] = [];
+  const lower = text.toLowerCase();
+
+  for (const word of lower.match(/[a-z0-9]+(?:[-'][a-z0-9]+)*/g) || []) {
+    if (word.length < 2 || STOPWORDS.has(word)) continue;
+    // Cheap plural folding so "models" matches "model"
+    tokens.push(word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word);
+  }
+
+  for (const run of lower.match(/[\u3040-\u30ff\u3400-\u9fff]+/g) || []) {
+    if (run.length === 1) tokens.push(run);
+    for (let i = 0; i < run.length - 1; i++) tokens.push(run.slice(i, i + 2));
+  }
+
+  return tokens;
+};
+
+/**
+ * Splits each page into overlapping passages, preferring sentence boundaries.
+ */
+export const chunkText = (fullText: string): Passage[] => {
+  const passages: Passage[] = [];
+
+  splitTextIntoPages(fullText).forEach((pageText, pageIdx) => {
+    const text = pageText.replace(/\s+/g, ' ').trim();
+    let start = 0;
+    while (start < text.length) {
+      let end = Math.min(text.length, start + PASSAGE_TARGET_CHARS);
+      if (end < text.length) {
+        const boundary = text.lastIndexOf('. ', end);
+        if (boundary > start + PASSAGE_TARGET_CHARS / 2) end = boundary + 1;
+      }
+      const slice = text.slice(start, end).trim();
+      if (slice.length > 40) passages.push({ id: passages.length, page: pageIdx + 1, text: slice });
+      if (end >= text.length) break;
+      start = Math.max(end - PASSAGE_OVERLAP_CHARS, start + 1);
+    }
+  });
+
+  return passages;
+};
+
+export const buildPaperIndex = (fullText: string): PaperIndex => {
+  const passages = chunkText(fullText);
+  const termFreqs: Record<string, number>[] = [];
+  const docFreq: Record<string, number> = {};
+  const docLengths: number[] = [];
+
+  for (const passage of passages) {
+    const tokens = tokenize(passage.text);
+    const tf: Record<string, number> = {};
+    for (const token of tokens) tf[token] = (tf[token] || 0) + 1;
+    for (const token of Object.keys(tf)) docFreq[token] = (docFreq[token] || 0) + 1;
+    termFreqs.push(tf);
+    docLengths.push(tokens.length);
+  }
+
+  const avgDocLength = docLengths.reduce((a, b) => a + b, 0) / Math.max(docLengths.length, 1);
+  return { version: INDEX_VERSION, passages, termFreqs, docFreq, docLengths, avgDocLength };
+};
+
+const bm25Scores = (index: PaperIndex, query: string): number[] => {
+  const n = index.passages.length;
+  const queryTokens = Array.from(new Set(tokenize(query)));
+  return index.passages.map((_, i) => {
+    let score = 0;
+    for (const token of queryTokens) {
+      const tf = index.termFreqs[i][token];
+      if (!tf) continue;
+      const df = index.docFreq[token] || 0;
+      const idf = Math.log(1 + (n - df + 0.5) / (df + 0.5));
+      const norm = tf + BM25_K1 * (1 - BM25_B + BM25_B * index.docLengths[i] / (index.avgDocLength || 1));
+      score += idf * (tf * (BM25_K1 + 1)) / norm;
+    }
+    return score;
+  });
+};
+
+const cosine = (a: number[], b: number[]) => {
+  let dot = 0, na = 0, nb = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    na += a[i] * a[i];
+    nb += b[i] * b[i];
+  }
+  return na && nb ? dot / Math.sqrt(na * nb) : 0;
+};
+
+/**
+ * Hybrid search: BM25 (normalized) plus cosine similarity when a query embedding is given.
+ * Cross-language questions often share no terms with the paper, so when nothing matches
+ * the result is padded with passages from `fallbackPage` and the opening of the paper.
+ */
+export const searchPaperIndex = (
+  index: PaperIndex,
+  query: string,
+  options: { k?: number; queryEmbedding?: number[]; fallbackPage?: number } = {}
+): RetrievedPassage[] => {
+  const k = options.k ?? 6;
+  const lexical = bm25Scores(index, query);
+  const maxLexical = Math.max(...lexical, 0);
+  const vectors = index.embeddings?.vectors;
+
+  const scored = index.passages.map((passage, i) => {
+    let score = maxLexical > 0 ? lexical[i] / maxLexical : 0;
+    if (options.queryEmbedding && vectors?.[i]) {
+      score = 0.5 * score + cosine(options.queryEmbedding, vectors[i]);
+    }
+    return { ...passage, score };
+  });
+
+  const hits = scored.filter(p => p.score > 0).sort((a, b) => b.score - a.score).slice(0, k);
+
+  if (hits.length < Math.ceil(k / 2)) {
+    const chosen = new Set(hits.map(h => h.id));
+    const fallback = scored.filter(p => !chosen.has(p.id) && (p.page === options.fallbackPage || p.page === 1));
+    hits.push(...fallback.slice(0, k - hits.length));
+  }
+
+  // Keep reading order so the model sees passages as they appear in the paper
+  return hits.sort((a, b) => a.id - b.id);
+};
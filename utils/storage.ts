@@ -1,5 +1,9 @@
 import { openDB, DBSchema, IDBPDatabase } from 'idb';
-import { PaperSummary, PageTranslation } from '../types';
+import { BibliographyEntry, BlockEdit, ContentBlock, PaperSummary, PageTranslation, PassageTranslation, SummaryChunk, TermEntry, UsageRecord } from '../types';
+import { PaperIndex } from './retrieval';
+import { ReferenceIndex } from './references';
+import { TEXT_EXTRACTOR_VERSION } from './pdfUtils';
+import { editsToKeep } from './blockEdits';
 
 interface ScholarDB extends DBSchema {
   files: {
@@ -7,8 +11,11 @@ interface ScholarDB extends DBSchema {
     value: {
       fingerprint: string;
       name: string;
-      summary: PaperSummary;
+      summary?: PaperSummary;
       fullText?: string;
+      textVersion?: number; // TEXT_EXTRACTOR_VERSION that produced fullText
+      searchIndex?: PaperIndex;
+      references?: ReferenceIndex;
       createdAt: number;
     };
   };
@@ -18,22 +25,69 @@ interface ScholarDB extends DBSchema {
       id: string;
       fingerprint: string;
       pageNumber: number;
-      data: PageTranslation;
+      data: PageTranslation; // model output only
+      edits?: Record<string, BlockEdit>; // user corrections, kept across re-translations
       createdAt: number;
     };
     indexes: { 'by-fingerprint': string };
   };
+  summaryChunks: {
+    key: string; // fingerprint_chunkKey
+    value: {
+      id: string;
+      fingerprint: string;
+      data: SummaryChunk;
+      createdAt: number;
+    };
+    indexes: { 'by-fingerprint': string };
+  };
+  usage: {
+    key: number; // auto increment
+    value: UsageRecord;
+    indexes: { 'by-fingerprint': string };
+  };
+  terms: {
+    key: string; // field:source-target:normalized term
+    value: TermEntry;
+    indexes: { 'by-field': string };
+  };
+  passages: {
+    key: string;
+    value: PassageTranslation;
+    indexes: { 'by-fingerprint': string };
+  };
+  bibliography: {
+    key: string;
+    value: BibliographyEntry;
+    indexes: { 'by-source': string };
+  };
 }
 
 const DB_NAME = 'ScholarScrollDB';
-const DB_VERSION = 1;
+const DB_VERSION = 9;
 
 let dbPromise: Promise<IDBPDatabase<ScholarDB>> | null = null;
 
+// Before v5, blocks and edits were hardwired to English → Chinese (`en`/`cn`)
+type LegacyBlock = Partial<ContentBlock> & { type: ContentBlock['type']; en?: string; cn?: string };
+type LegacyEdit = Omit<Partial<BlockEdit>, 'history'> & { cn?: string; history: { cn?: string; target?: string; author: 'model' | 'user'; at: number }[] };
+
+const migrateBlock = ({ en, cn, ...block }: LegacyBlock): ContentBlock => ({
+  type: block.type,
+  source: block.source ?? en ?? '',
+  target: block.target ?? cn ?? ''
+});
+
+const migrateEdit = ({ cn, ...edit }: LegacyEdit): BlockEdit => ({
+  target: edit.target ?? cn ?? '',
+  locked: !!edit.locked,
+  history: edit.history.map(({ cn: revisionCn, ...r }) => ({ author: r.author, at: r.at, target: r.target ?? revisionCn ?? '' }))
+});
+
 const getDB = () => {
   if (!dbPromise) {
     dbPromise = openDB<ScholarDB>(DB_NAME, DB_VERSION, {
-      upgrade(db) {
+      async upgrade(db, oldVersion, _newVersion, transaction) {
         if (!db.objectStoreNames.contains('files')) {
           db.createObjectStore('files', { keyPath: 'fingerprint' });
         }
@@ -41,6 +95,68 @@ const getDB = () => {
           const store = db.createObjectStore('translations', { keyPath: 'id' });
           store.createIndex('by-fingerprint', 'fingerprint');
         }
+        if (!db.objectStoreNames.contains('summaryChunks')) {
+          const store = db.createObjectStore('summaryChunks', { keyPath: 'id' });
+          store.createIndex('by-fingerprint', 'fingerprint');
+        }
+        if (!db.objectStoreNames.contains('usage')) {
+          const store = db.createObjectStore('usage', { keyPath: 'id', autoIncrement: true });
+          store.createIndex('by-fingerprint', 'fingerprint');
+        }
+        if (!db.objectStoreNames.contains('terms')) {
+          const store = db.createObjectStore('terms', { keyPath: 'id' });
+          store.createIndex('by-field', 'field');
+        }
+        if (!db.objectStoreNames.contains('passages')) {
+          const store = db.createObjectStore('passages', { keyPath: 'id' });
+          store.createIndex('by-fingerprint', 'fingerprint');
+        }
+        if (!db.objectStoreNames.contains('bibliography')) {
+          const store = db.createObjectStore('bibliography', { keyPath: 'id' });
+          store.createIndex('by-source', 'source');
+        }
+        if (oldVersion > 0 && oldVersion < 5) {
+          let cursor = await transaction.objectStore('translations').openCursor();
+          while (cursor) {
+            const record = cursor.value;
+            const edits = record.edits as unknown as Record<string, LegacyEdit> | undefined;
+            await cursor.update({
+              ...record,
+              data: {
+                ...record.data,
+                blocks: (record.data.blocks as LegacyBlock[]).map(migrateBlock),
+                languages: record.data.languages ?? { source: 'en', target: 'zh' }
+              },
+              edits: edits && Object.fromEntries(Object.entries(edits).map(([key, edit]) => [key, migrateEdit(edit)]))
+            });
+            cursor = await cursor.continue();
+          }
+        }
+        // v7 keyed imported records without their file, so files sharing a work overwrote each other
+        if (oldVersion === 7) {
+          let cursor = await transaction.objectStore('bibliography').openCursor();
+          while (cursor) {
+            const entry = cursor.value;
+            if (!entry.id.startsWith(`${entry.source}|`)) {
+              await cursor.delete();
+              await transaction.objectStore('bibliography').put({ ...entry, id: `${entry.source}|${entry.id}` });
+            }
+            cursor = await cursor.continue();
+          }
+        }
+        // Before v9 the term base had no language pair; everything in it was collected as English → Chinese
+        if (oldVersion > 0 && oldVersion < 9) {
+          const store = transaction.objectStore('terms');
+          let cursor = await store.openCursor();
+          while (cursor) {
+            const entry = cursor.value as Omit<TermEntry, 'languages'> & { languages?: TermEntry['languages'] };
+            if (!entry.languages) {
+              await cursor.delete();
+              await store.put({ ...entry, languages: { source: 'en', target: 'zh' }, id: `${entry.field}:en-zh:${entry.id.slice(entry.field.length + 1)}` });
+            }
+            cursor = await cursor.continue();
+          }
+        }
       },
     });
   }
@@ -53,37 +169,278 @@ export const generateFingerprint = async (file: File): Promise<string> => {
   return `${file.name}_${file.size}_${file.lastModified}`;
 };
 
-export const saveSummary = async (fingerprint: string, name: string, summary: PaperSummary, fullText?: string) => {
+// Merges into the existing paper record so fields saved separately (e.g. the search index) survive
+const updatePaperRecord = async (fingerprint: string, name: string, patch: Partial<ScholarDB['files']['value']>) => {
   const db = await getDB();
-  await db.put('files', {
+  const tx = db.transaction('files', 'readwrite');
+  const existing = await tx.store.get(fingerprint);
+  await tx.store.put({
+    createdAt: Date.now(),
+    ...existing,
+    ...patch,
     fingerprint,
-    name,
-    summary,
-    fullText,
-    createdAt: Date.now()
+    name
   });
+  await tx.done;
+};
+
+export const saveSummary = async (fingerprint: string, name: string, summary: PaperSummary) => {
+  await updatePaperRecord(fingerprint, name, { summary });
 };
 
+// Older builds persisted their fallback results as if they were real data.
+// Treat those records as cache misses so they get regenerated.
+const isLegacyFailedSummary = (summary: PaperSummary) => summary.title === '解读中断';
+const isLegacyFailedTranslation = (data: PageTranslation) =>
+  data.blocks.length === 1 && data.blocks[0].source === 'Network Error';
+
 export const getSummary = async (fingerprint: string) => {
   const db = await getDB();
-  return db.get('files', fingerprint);
+  const record = await db.get('files', fingerprint);
+  if (!record || !record.summary || isLegacyFailedSummary(record.summary)) return undefined;
+  return record;
+};
+
+// Extracted text of the paper, unless it was produced by an older extractor (e.g. the 10-page one)
+export const getPaperText = async (fingerprint: string) => {
+  const db = await getDB();
+  const record = await db.get('files', fingerprint);
+  return record?.fullText && record.textVersion === TEXT_EXTRACTOR_VERSION ? record.fullText : undefined;
+};
+
+export const savePaperText = async (fingerprint: string, name: string, fullText: string) => {
+  await updatePaperRecord(fingerprint, name, { fullText, textVersion: TEXT_EXTRACTOR_VERSION });
+};
+
+export const getPaperIndex = async (fingerprint: string) => {
+  const db = await getDB();
+  const record = await db.get('files', fingerprint);
+  return record?.searchIndex;
+};
+
+export const savePaperIndex = async (fingerprint: string, name: string, searchIndex: PaperIndex) => {
+  await updatePaperRecord(fingerprint, name, { searchIndex });
+};
+
+// Parsed bibliography of the paper; also holds citation notes written on request
+export const getReferenceIndex = async (fingerprint: string) => {
+  const db = await getDB();
+  const record = await db.get('files', fingerprint);
+  return record?.references;
+};
+
+export const saveReferenceIndex = async (fingerprint: string, name: string, references: ReferenceIndex) => {
+  await updatePaperRecord(fingerprint, name, { references });
+};
+
+/**
+ * Applies `update` to a paper's reference list, read inside the write transaction so
+ * notes or statuses saved elsewhere in the meantime are not overwritten.
+ */
+export const updateReferenceIndex = async (fingerprint: string, update: (references: ReferenceIndex) => ReferenceIndex) => {
+  const db = await getDB();
+  const tx = db.transaction('files', 'readwrite');
+  const existing = await tx.store.get(fingerprint);
+  if (existing?.references) await tx.store.put({ ...existing, references: update(existing.references) });
+  await tx.done;
 };
 
+export interface PaperReferenceRecord {
+  fingerprint: string;
+  name: string;
+  title?: string; // from the summary
+  references?: ReferenceIndex;
+}
+
+// Reference lists of every paper in the library (used by the cross-paper reading list).
+// Read with a cursor so the papers' full text and search indexes are not all held at once.
+export const getPaperReferenceRecords = async (): Promise<PaperReferenceRecord[]> => {
+  const db = await getDB();
+  const records: PaperReferenceRecord[] = [];
+  let cursor = await db.transaction('files').store.openCursor();
+  while (cursor) {
+    const { fingerprint, name, summary, references } = cursor.value;
+    records.push({ fingerprint, name, title: summary?.title, references });
+    cursor = await cursor.continue();
+  }
+  return records;
+};
+
+const withEdits = (data: PageTranslation, edits?: Record<string, BlockEdit>): PageTranslation =>
+  edits && Object.keys(edits).length > 0 ? { ...data, edits } : data;
+
+/**
+ * Stores a fresh model translation. Locked and user-written edits of the page are kept
+ * (unless the target language changed), and the returned translation has them attached.
+ */
 export const savePageTranslation = async (fingerprint: string, pageNumber: number, data: PageTranslation) => {
   const db = await getDB();
   const id = `${fingerprint}_${pageNumber}`;
-  await db.put('translations', {
+  const tx = db.transaction('translations', 'readwrite');
+  const existing = await tx.store.get(id);
+  const { edits: _ignored, ...modelOutput } = data;
+  const sameTarget = existing?.data.languages?.target === modelOutput.languages?.target;
+  const edits = sameTarget && existing?.edits ? editsToKeep(existing.edits) : undefined;
+  await tx.store.put({
     id,
     fingerprint,
     pageNumber,
-    data,
+    data: modelOutput,
+    edits,
     createdAt: Date.now()
   });
+  await tx.done;
+  return withEdits(modelOutput, edits);
+};
+
+export const saveBlockEdits = async (fingerprint: string, pageNumber: number, edits: Record<string, BlockEdit>) => {
+  const db = await getDB();
+  const id = `${fingerprint}_${pageNumber}`;
+  const tx = db.transaction('translations', 'readwrite');
+  const existing = await tx.store.get(id);
+  if (existing) await tx.store.put({ ...existing, edits });
+  await tx.done;
 };
 
 export const getPageTranslation = async (fingerprint: string, pageNumber: number) => {
   const db = await getDB();
   const id = `${fingerprint}_${pageNumber}`;
   const record = await db.get('translations', id);
-  return record ? record.data : null;
+  if (!record || isLegacyFailedTranslation(record.data)) return null;
+  return withEdits(record.data, record.edits);
+};
+
+// Pages of a paper that already have a (real) cached translation
+export const getTranslatedPageNumbers = async (fingerprint: string): Promise<number[]> => {
+  const db = await getDB();
+  const records = await db.getAllFromIndex('translations', 'by-fingerprint', fingerprint);
+  return records.filter(r => !isLegacyFailedTranslation(r.data)).map(r => r.pageNumber);
+};
+
+// All cached translations of a paper, keyed by page number (used by exports)
+export const getPageTranslations = async (fingerprint: string): Promise<Map<number, PageTranslation>> => {
+  const db = await getDB();
+  const records = await db.getAllFromIndex('translations', 'by-fingerprint', fingerprint);
+  return new Map(
+    records
+      .filter(r => !isLegacyFailedTranslation(r.data))
+      .map(r => [r.pageNumber, withEdits(r.data, r.edits)] as [number, PageTranslation])
+  );
+};
+
+// Intermediate map-step summaries for long papers, so regenerating a summary is cheap
+export const getSummaryChunk = async (fingerprint: string, chunkKey: string) => {
+  const db = await getDB();
+  const record = await db.get('summaryChunks', `${fingerprint}_${chunkKey}`);
+  return record ? record.data : undefined;
+};
+
+export const saveSummaryChunk = async (fingerprint: string, chunkKey: string, data: SummaryChunk) => {
+  const db = await getDB();
+  await db.put('summaryChunks', {
+    id: `${fingerprint}_${chunkKey}`,
+    fingerprint,
+    data,
+    createdAt: Date.now()
+  });
+};
+
+// Token usage ledger, one record per model response
+export const addUsageRecord = async (record: UsageRecord) => {
+  const db = await getDB();
+  await db.add('usage', record);
+};
+
+export const getUsageRecords = async (fingerprint?: string) => {
+  const db = await getDB();
+  return fingerprint
+    ? db.getAllFromIndex('usage', 'by-fingerprint', fingerprint)
+    : db.getAll('usage');
+};
+
+export const clearUsageRecords = async () => {
+  const db = await getDB();
+  await db.clear('usage');
+};
+
+// Cross-paper terminology base
+export const getAllTerms = async () => {
+  const db = await getDB();
+  return db.getAll('terms');
+};
+
+export const getTermsByField = async (field: string) => {
+  const db = await getDB();
+  return db.getAllFromIndex('terms', 'by-field', field);
+};
+
+/**
+ * Read-merge-write of one field's terms in a single transaction, so pages translated
+ * side by side that share a term don't overwrite each other's counts
+ */
+export const updateFieldTerms = async (field: string, update: (terms: TermEntry[]) => TermEntry[]) => {
+  const db = await getDB();
+  const tx = db.transaction('terms', 'readwrite');
+  const changed = update(await tx.store.index('by-field').getAll(field));
+  await Promise.all(changed.map(term => tx.store.put(term)));
+  await tx.done;
+};
+
+/**
+ * Rewrites terms from their stored state: `update` receives those of `ids` that still
+ * exist and returns the records to store and the ids to delete
+ */
+export const updateTermEntries = async (ids: string[], update: (terms: TermEntry[]) => { put: TermEntry[]; remove: string[] }) => {
+  const db = await getDB();
+  const tx = db.transaction('terms', 'readwrite');
+  const stored = (await Promise.all(ids.map(id => tx.store.get(id)))).filter((t): t is TermEntry => !!t);
+  const { put, remove } = update(stored);
+  await Promise.all([...put.map(term => tx.store.put(term)), ...remove.map(id => tx.store.delete(id))]);
+  await tx.done;
+  return put;
+};
+
+export const deleteTerms = async (ids: string[]) => {
+  const db = await getDB();
+  const tx = db.transaction('terms', 'readwrite');
+  await Promise.all(ids.map(id => tx.store.delete(id)));
+  await tx.done;
+};
+
+// Translate-tab history, per paper
+export const savePassage = async (passage: PassageTranslation) => {
+  const db = await getDB();
+  await db.put('passages', passage);
+};
+
+export const getPassages = async (fingerprint: string): Promise<PassageTranslation[]> => {
+  const db = await getDB();
+  const passages = await db.getAllFromIndex('passages', 'by-fingerprint', fingerprint);
+  return passages.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const deletePassage = async (id: string) => {
+  const db = await getDB();
+  await db.delete('passages', id);
+};
+
+// Imported BibTeX/RIS records, shared by all papers
+export const putBibliographyEntries = async (entries: BibliographyEntry[]) => {
+  const db = await getDB();
+  const tx = db.transaction('bibliography', 'readwrite');
+  await Promise.all(entries.map(entry => tx.store.put(entry)));
+  await tx.done;
+};
+
+export const getBibliographyEntries = async () => {
+  const db = await getDB();
+  return db.getAll('bibliography');
+};
+
+export const deleteBibliographySource = async (source: string) => {
+  const db = await getDB();
+  const tx = db.transaction('bibliography', 'readwrite');
+  const keys = await tx.store.index('by-source').getAllKeys(source);
+  await Promise.all(keys.map(key => tx.store.delete(key)));
+  await tx.done;
 };
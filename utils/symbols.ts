@@ -0,0 +1,83 @@
+import { splitTextIntoPages } from './pdfUtils';
+
+// Finds the sentences where a paper defines the symbols of an equation ("where θ denotes ...",
+// "let L_cls be ...", "we set λ = 0.5"), so the Magic Lens explains them the way the paper does.
+
+export interface SymbolDefinition {
+  page: number;
+  text: string;
+  symbols: string[]; // LaTeX of the equation symbols the sentence mentions
+}
+
+const MAX_DEFINITIONS = 8;
+const MAX_SENTENCE_LENGTH = 400;
+const CUE_WINDOW = 60;
+
+const GREEK: Record<string, string> = {
+  alpha: 'α', beta: 'β', gamma: 'γ', delta: 'δ', epsilon: 'ε', varepsilon: 'ε', zeta: 'ζ', eta: 'η',
+  theta: 'θ', vartheta: 'ϑ', iota: 'ι', kappa: 'κ', lambda: 'λ', mu: 'μ', nu: 'ν', xi: 'ξ', pi: 'π',
+  rho: 'ρ', sigma: 'σ', tau: 'τ', upsilon: 'υ', phi: 'φ', varphi: 'φ', chi: 'χ', psi: 'ψ', omega: 'ω',
+  Gamma: 'Γ', Delta: 'Δ', Theta: 'Θ', Lambda: 'Λ', Xi: 'Ξ', Pi: 'Π', Sigma: 'Σ', Phi: 'Φ', Psi: 'Ψ', Omega: 'Ω'
+};
+
+const DEFINITION_CUE = /\b(?:where|let|denotes?|denoted|represents?|is the|are the|be the|is a|refers? to|stands? for|defined as|corresponds? to)\b/i;
+
+// `\theta_{t}`, `L_{\text{cls}}`, `\mathbf{x}_i`, `W^{(l)}`: a base with an optional subscript
+const SYMBOL = /(?:\\(?:mathbf|mathcal|mathrm|boldsymbol|hat|tilde|bar|vec)\{\\?([A-Za-z]+)\}|\\([A-Za-z]+)|([A-Za-z]))(?:_(\{(?:[^{}]|\{[^{}]*\})*\}|\\?[A-Za-z0-9]+))?/g;
+
+const plainSubscript = (sub: string) =>
+  sub.replace(/\\(?:text|mathrm|mathit|operatorname)\s*/g, '').replace(/\\([A-Za-z]+)/g, (_, name: string) => GREEK[name] ?? name).replace(/[{}\s]/g, '');
+
+interface EquationSymbolForms {
+  latex: string;
+  forms: string[]; // how the symbol may read in the PDF text layer
+}
+
+const equationSymbols = (latex: string): EquationSymbolForms[] => {
+  const symbols = new Map<string, EquationSymbolForms>();
+  for (const m of latex.matchAll(SYMBOL)) {
+    const name = m[1] || m[2] || m[3];
+    // Commands other than wrapped letters and Greek letters are operators (\sum, \frac, \log)
+    const base = m[1] ? (GREEK[name] ?? name) : m[2] ? GREEK[name] : name;
+    if (!base) continue;
+    const sub = m[4] ? plainSubscript(m[4]) : '';
+    const forms = sub ? [`${base}${sub}`, `${base}_${sub}`, `${base} ${sub}`] : [base];
+    if (!symbols.has(m[0])) symbols.set(m[0], { latex: m[0], forms });
+  }
+  return Array.from(symbols.values());
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Position of `form` as a standalone token in `sentence`, or -1
+const tokenIndex = (sentence: string, form: string) =>
+  sentence.search(new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(form)}(?![\\p{L}\\p{N}])`, 'u'));
+
+/**
+ * Collects the sentences of the paper that define symbols of `latex`, best first:
+ * a sentence counts when a symbol appears next to a definitional cue or is set to a value.
+ */
+export const findSymbolDefinitions = (fullText: string, latex: string): SymbolDefinition[] => {
+  const symbols = equationSymbols(latex);
+  if (symbols.length === 0 || !fullText) return [];
+
+  const found: SymbolDefinition[] = [];
+  splitTextIntoPages(fullText).forEach((pageText, i) => {
+    for (const sentence of pageText.replace(/\s+/g, ' ').split(/(?<=[.;!?])\s+/)) {
+      if (sentence.length > MAX_SENTENCE_LENGTH) continue;
+      const defined = symbols.filter(symbol => symbol.forms.some(form => {
+        const at = tokenIndex(sentence, form);
+        if (at < 0) return false;
+        // "λ = 0.5" gives the value the paper uses, which is as useful as a definition
+        if (/^\s*=\s*-?[\d.]/.test(sentence.slice(at + form.length))) return true;
+        return DEFINITION_CUE.test(sentence.slice(Math.max(0, at - CUE_WINDOW), at + form.length + CUE_WINDOW));
+      }));
+      if (defined.length > 0) found.push({ page: i + 1, text: sentence.trim(), symbols: defined.map(s => s.latex) });
+    }
+  });
+
+  // Sentences covering more symbols first; among equals the earliest, where symbols are usually introduced
+  return found
+    .sort((a, b) => b.symbols.length - a.symbols.length || a.page - b.page)
+    .slice(0, MAX_DEFINITIONS);
+};
@@ -0,0 +1,10 @@
+import { BlockTable } from '../types';
+
+// Translated headers, falling back to the printed ones the model left untranslated
+export const tableHeader = (table: BlockTable): string[] =>
+  Array.from({ length: Math.max(table.header.length, table.headerTarget.length) }, (_, i) => table.headerTarget[i] || table.header[i] || '');
+
+const csvCell = (value: string) => /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const tableToCsv = (table: BlockTable): string =>
+  [tableHeader(table), ...table.rows].map(row => row.map(csvCell).join(',')).join('\n');
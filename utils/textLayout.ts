@@ -0,0 +1,291 @@
+import { BlockBox } from '../types';
+
+// Groups pdf.js text items into reading-order blocks using their positions,
+// so born-digital pages can be translated from the text layer instead of a screenshot.
+
+export interface TextItemLike {
+  str: string;
+  transform: number[]; // [a, b, c, d, e, f] — e/f are the baseline origin in PDF units
+  width: number;
+  height: number;
+}
+
+export interface TextLayerBlock {
+  text: string;
+  kind: 'heading' | 'paragraph';
+  bbox: BlockBox;
+  continuesOnNextPage?: boolean; // text already includes the end of its sentence from the next page
+}
+
+interface Segment {
+  text: string;
+  x0: number;
+  x1: number;
+  y: number; // baseline, PDF units (bottom-up)
+  size: number;
+  column: 'left' | 'right' | 'full';
+}
+
+const MIN_USABLE_CHARS = 80;
+const MAX_GARBAGE_RATIO = 0.1;
+
+const fontSizeOf = (item: TextItemLike) => Math.hypot(item.transform[2], item.transform[3]) || item.height || 10;
+
+/**
+ * Joins items on the same baseline into line segments.
+ * A horizontal gap much wider than a space is a column gutter and starts a new segment.
+ */
+const buildSegments = (items: TextItemLike[], pageWidth: number): Segment[] => {
+  const sorted = items
+    .filter(item => item.str.trim())
+    .sort((a, b) => b.transform[5] - a.transform[5]);
+
+  // Baselines within half a line of each other form one visual line
+  const lines: TextItemLike[][] = [];
+  for (const item of sorted) {
+    const line = lines[lines.length - 1];
+    const size = fontSizeOf(item);
+    if (line && Math.abs(line[0].transform[5] - item.transform[5]) < Math.min(fontSizeOf(line[0]), size) * 0.5) {
+      line.push(item);
+    } else {
+      lines.push([item]);
+    }
+  }
+
+  const segments: Segment[] = [];
+  for (const line of lines) {
+    let current: Segment | null = null;
+    for (const item of line.sort((a, b) => a.transform[4] - b.transform[4])) {
+      const size = fontSizeOf(item);
+      const x0 = item.transform[4];
+      const x1 = x0 + item.width;
+      const gap: number = current ? x0 - current.x1 : 0;
+      if (current && gap < size * 2.5) {
+        current.text += (gap > size * 0.15 && !current.text.endsWith(' ') ? ' ' : '') + item.str;
+        current.x1 = Math.max(current.x1, x1);
+        current.size = Math.max(current.size, size);
+      } else {
+        current = { text: item.str, x0, x1, y: item.transform[5], size, column: 'full' };
+        segments.push(current);
+      }
+    }
+  }
+
+  const mid = pageWidth / 2;
+  for (const seg of segments) {
+    if (seg.x1 <= mid + pageWidth * 0.05) seg.column = 'left';
+    else if (seg.x0 >= mid - pageWidth * 0.05) seg.column = 'right';
+  }
+  // Single-column pages: short lines would otherwise be split into fake columns
+  if (!segments.some(s => s.column === 'right')) segments.forEach(s => { s.column = 'full'; });
+
+  return segments;
+};
+
+/**
+ * Reading order: full-width lines stay in place; between two of them,
+ * the left column is read top to bottom before the right column.
+ */
+const orderSegments = (segments: Segment[]): Segment[] => {
+  const ordered: Segment[] = [];
+  let band: Segment[] = [];
+  const flush = () => {
+    ordered.push(...band.filter(s => s.column === 'left'), ...band.filter(s => s.column === 'right'));
+    band = [];
+  };
+  for (const seg of segments) {
+    if (seg.column === 'full') {
+      flush();
+      ordered.push(seg);
+    } else {
+      band.push(seg);
+    }
+  }
+  flush();
+  return ordered;
+};
+
+const joinLines = (a: string, b: string) => {
+  // Re-join words hyphenated across a line break
+  if (/[a-z]-$/.test(a) && /^[a-z]/.test(b)) return a.slice(0, -1) + b;
+  return `${a} ${b}`;
+};
+
+export const groupTextItems = (items: TextItemLike[], pageWidth: number, pageHeight: number): TextLayerBlock[] => {
+  const segments = orderSegments(buildSegments(items, pageWidth));
+  if (segments.length === 0) return [];
+
+  const sizes = segments.map(s => s.size).sort((a, b) => a - b);
+  const bodySize = sizes[Math.floor(sizes.length / 2)];
+
+  const groups: Segment[][] = [];
+  for (const seg of segments) {
+    const group = groups[groups.length - 1];
+    const prev = group?.[group.length - 1];
+    const continues = prev
+      && prev.column === seg.column
+      && prev.y - seg.y > 0
+      && prev.y - seg.y < Math.max(prev.size, seg.size) * 1.8
+      && Math.abs(prev.size - seg.size) < bodySize * 0.15;
+    if (continues) group.push(seg);
+    else groups.push([seg]);
+  }
+
+  return groups.map(group => {
+    const text = group.map(s => s.text.trim()).reduce(joinLines).replace(/\s+/g, ' ').trim();
+    const size = Math.max(...group.map(s => s.size));
+    const x0 = Math.min(...group.map(s => s.x0));
+    const x1 = Math.max(...group.map(s => s.x1));
+    const top = Math.max(...group.map(s => s.y + s.size));
+    const bottom = Math.min(...group.map(s => s.y)) - size * 0.25;
+    return {
+      text,
+      kind: size > bodySize * 1.15 && text.length < 150 ? 'heading' : 'paragraph',
+      bbox: {
+        x: x0 / pageWidth,
+        y: 1 - top / pageHeight,
+        width: (x1 - x0) / pageWidth,
+        height: (top - bottom) / pageHeight
+      }
+    };
+  });
+};
+
+/**
+ * A text layer is usable when it has enough real characters.
+ * Scanned pages have none; broken font encodings produce replacement/control characters.
+ */
+export const isUsableTextLayer = (blocks: TextLayerBlock[]): boolean => {
+  const text = blocks.map(b => b.text).join('').replace(/\s/g, '');
+  if (text.length < MIN_USABLE_CHARS) return false;
+  const garbage = (text.match(/[\ufffd\u0000-\u001f]/g) || []).length;
+  return garbage / text.length <= MAX_GARBAGE_RATIO;
+};
+
+// --- Page boundaries ---
+// A paragraph cut by a page break is translated once, on the page where it starts:
+// that page borrows the opening of the next page up to the first sentence end,
+// and the next page drops the borrowed part.
+
+// Running headers, footers and page numbers are short; body paragraphs are not
+const MIN_BODY_CHARS = 60;
+
+const ABBREVIATIONS = new Set(['al', 'e.g', 'i.e', 'fig', 'figs', 'eq', 'eqs', 'sec', 'ref', 'refs', 'vs', 'cf', 'no', 'vol', 'pp']);
+
+const isBodyBlock = (block: TextLayerBlock) => block.kind === 'paragraph' && block.text.length >= MIN_BODY_CHARS;
+
+const isUnfinished = (text: string) => /-$/.test(text) || !/[.!?:;\u3002\uff01\uff1f\uff1a\uff1b]["'\u201d\u2019)\]]*$/.test(text);
+
+// End of the first sentence, or -1 when the block has none
+const firstSentenceEnd = (text: string): number => {
+  const re = /[.!?\u3002\uff01\uff1f]["'\u201d\u2019)\]]*/g;
+  let match: RegExpExecArray | null;
+  while ((match = re.exec(text))) {
+    const end = match.index + match[0].length;
+    const isCjk = match[0][0] > '\u3000';
+    // "3.5", "e.g." mid-word and similar are not sentence ends
+    if (!isCjk && end < text.length && !/\s/.test(text[end])) continue;
+    if (match[0][0] === '.') {
+      const word = (text.slice(0, match.index).split(/\s+/).pop() || '').replace(/^[^\p{L}]+/u, '').toLowerCase();
+      if (word.length <= 1 || ABBREVIATIONS.has(word)) continue; // initials and abbreviations
+    }
+    return end;
+  }
+  return -1;
+};
+
+interface PageBoundary {
+  lastIndex: number;  // last body block of the earlier page
+  firstIndex: number; // first body block of the later page
+  fragment: string;   // opening of that block, up to the end of the broken sentence
+  remainder: string;
+}
+
+const findPageBoundary = (earlier: TextLayerBlock[], later: TextLayerBlock[]): PageBoundary | null => {
+  let lastIndex = earlier.length - 1;
+  while (lastIndex >= 0 && !isBodyBlock(earlier[lastIndex])) lastIndex--;
+  const firstIndex = later.findIndex(isBodyBlock);
+  if (lastIndex === -1 || firstIndex === -1 || !isUnfinished(earlier[lastIndex].text)) return null;
+
+  const text = later[firstIndex].text;
+  const end = firstSentenceEnd(text);
+  if (end === -1) return null;
+  return { lastIndex, firstIndex, fragment: text.slice(0, end).trim(), remainder: text.slice(end).trim() };
+};
+
+/**
+ * Joins a sentence broken at the end of the page with its continuation,
+ * and drops the part of the opening sentence that the previous page already translates.
+ */
+export const stitchPageBlocks = (
+  previous: TextLayerBlock[],
+  current: TextLayerBlock[],
+  next: TextLayerBlock[]
+): { blocks: TextLayerBlock[]; continuesFromPreviousPage: boolean } => {
+  const fromPrevious = findPageBoundary(previous, current);
+  const toNext = findPageBoundary(current, next);
+
+  const blocks = current
+    .map((block, i) => {
+      const text = i === fromPrevious?.firstIndex ? fromPrevious.remainder : block.text;
+      if (i === toNext?.lastIndex && text) {
+        return { ...block, text: joinLines(text, toNext.fragment), continuesOnNextPage: true };
+      }
+      return text === block.text ? block : { ...block, text };
+    })
+    .filter(block => block.text);
+
+  return { blocks, continuesFromPreviousPage: !!fromPrevious };
+};
+
+export const unionBoxes = (boxes: BlockBox[]): BlockBox | undefined => {
+  if (boxes.length === 0) return undefined;
+  const x0 = Math.min(...boxes.map(b => b.x));
+  const y0 = Math.min(...boxes.map(b => b.y));
+  const x1 = Math.max(...boxes.map(b => b.x + b.width));
+  const y1 = Math.max(...boxes.map(b => b.y + b.height));
+  return { x: x0, y: y0, width: x1 - x0, height: y1 - y0 };
+};
+
+/**
+ * Index of the block whose region contains the point (normalized page coordinates).
+ * Nested regions (a caption inside a figure) resolve to the smallest one.
+ */
+export const blockIndexAt = (blocks: { bbox?: BlockBox }[], x: number, y: number): number => {
+  let best = -1;
+  let bestArea = Infinity;
+  blocks.forEach((block, i) => {
+    const b = block.bbox;
+    if (!b || x < b.x || x > b.x + b.width || y < b.y || y > b.y + b.height) return;
+    const area = b.width * b.height;
+    if (area < bestArea) {
+      best = i;
+      bestArea = area;
+    }
+  });
+  return best;
+};
+
+const overlapsHorizontally = (a: BlockBox, b: BlockBox) => a.x < b.x + b.width && b.x < a.x + a.width;
+
+/**
+ * Text-layer pages only locate a figure's caption; the graphic itself has no text.
+ * The figure is taken to fill the gap between the caption and the nearest text in its column,
+ * above the caption or, for captions printed above the graphic, below it.
+ */
+export const figureRegion = (caption: BlockBox, others: BlockBox[]): BlockBox => {
+  const captionBottom = caption.y + caption.height;
+  const column = others.filter(b => overlapsHorizontally(b, caption));
+  const above = column.filter(b => b.y + b.height <= caption.y + 0.005).sort((a, b) => (b.y + b.height) - (a.y + a.height))[0];
+  const below = column.filter(b => b.y >= captionBottom - 0.005).sort((a, b) => a.y - b.y)[0];
+  const top = above ? above.y + above.height : 0;
+  const bottom = below ? below.y : 1;
+
+  const fillAbove = caption.y - top >= bottom - captionBottom;
+  const neighbour = fillAbove ? above : below;
+  const x0 = Math.min(caption.x, neighbour ? neighbour.x : caption.x);
+  const x1 = Math.max(caption.x + caption.width, neighbour ? neighbour.x + neighbour.width : 0);
+  return fillAbove
+    ? { x: x0, y: top, width: x1 - x0, height: captionBottom - top }
+    : { x: x0, y: caption.y, width: x1 - x0, height: bottom - caption.y };
+};
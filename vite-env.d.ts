@@ -0,0 +1,18 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Gemini 反代
+  readonly VITE_PROXY_API_KEY?: string;
+  readonly VITE_PROXY_MODELS?: string;
+  // DeepSeek 官方接口
+  readonly VITE_DEEPSEEK_API_KEY?: string;
+  // 本地 OpenAI 兼容服务 (Ollama / llama.cpp)
+  readonly VITE_LOCAL_LLM_BASE_URL?: string;
+  readonly VITE_LOCAL_LLM_MODELS?: string;
+  readonly VITE_LOCAL_LLM_VISION?: string;
+  readonly VITE_LOCAL_EMBEDDING_MODEL?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}